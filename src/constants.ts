@@ -1,11 +1,39 @@
 export const JSONRPC_VERSION = "2.0" as const;
 export const DEFAULT_REQUEST_TIMEOUT_MS = 30000 as const; // 30 seconds
-export const MCP_PROTOCOL_VERSION = "1.0" as const; // Specify the targeted MCP version
+export const MCP_PROTOCOL_VERSION = "2025-06-18" as const; // Latest revision, offered during initialize
+// Revisions this client can speak, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"] as const;
 
 // Connection timeouts
 export const SSE_CONNECTION_TIMEOUT_MS = 5000 as const;
+
+// SSE reconnection defaults
+export const DEFAULT_SSE_RECONNECT_ATTEMPTS = 5 as const;
+export const DEFAULT_SSE_RECONNECT_BASE_DELAY_MS = 500 as const; // Doubled on every attempt
+export const DEFAULT_SSE_RECONNECT_JITTER_MS = 250 as const;
 export const INIT_TIMEOUT_MAX_MS = 10000 as const;
 export const PROCESS_TERMINATION_TIMEOUT_MS = 1000 as const;
+export const SESSION_TERMINATION_TIMEOUT_MS = 1000 as const;
+export const GET_STREAM_REOPEN_DELAY_MS = 1000 as const; // Wait before reopening a broken Streamable HTTP GET stream
+export const WEBSOCKET_CONNECTION_TIMEOUT_MS = 5000 as const;
+export const SOCKET_CONNECTION_TIMEOUT_MS = 5000 as const;
+
+// Stream framing limits
+export const DEFAULT_MAX_MESSAGE_SIZE_BYTES = 64 * 1024 * 1024; // 64 MiB
+export const OVERSIZED_MESSAGE_HEAD_BYTES = 1024 as const; // Prefix kept to identify a dropped message
+export const DEFAULT_MAX_QUEUED_MESSAGES = 1000 as const;
+export const DEFAULT_STDERR_BUFFER_LINES = 100 as const; // Recent stderr lines kept per stdio server
+export const DEFAULT_WEBSOCKET_PING_INTERVAL_MS = 30000 as const;
+
+// Pagination
+export const DEFAULT_MAX_LIST_PAGES = 100 as const; // Pages read by list iterators and `all` before giving up
+
+// Streamable HTTP headers
+export const HTTP_HEADERS = {
+  SESSION_ID: 'Mcp-Session-Id',
+  LAST_EVENT_ID: 'Last-Event-ID',
+  PROTOCOL_VERSION: 'MCP-Protocol-Version'
+} as const;
 
 // Process exit codes
 export const EXIT_CODE_SUCCESS = 0 as const;
@@ -14,17 +42,22 @@ export const EXIT_CODE_SIGTERM = 143 as const; // Common exit code when process
 // API Method constants
 export const API_METHODS = {
   INITIALIZE: 'initialize',
-  INITIALIZED: 'initialized',
   PING: 'ping',
   CALL_TOOL: 'tools/call',
   LIST_TOOLS: 'tools/list',
   READ_RESOURCE: 'resources/read',
   LIST_RESOURCES: 'resources/list',
+  SUBSCRIBE_RESOURCE: 'resources/subscribe',
+  UNSUBSCRIBE_RESOURCE: 'resources/unsubscribe',
   LIST_PROMPTS: 'prompts/list',
   GET_PROMPT: 'prompts/get',
   LIST_RESOURCE_TEMPLATES: 'resources/templates/list',
   COMPLETE: 'complete',
-  SET_LOGGING_LEVEL: '$/logging/level'
+  SET_LOGGING_LEVEL: '$/logging/level',
+  // Sent by servers to the client
+  CREATE_MESSAGE: 'sampling/createMessage',
+  LIST_ROOTS: 'roots/list',
+  ELICIT: 'elicitation/create'
 } as const;
 
 // Error codes
@@ -34,11 +67,19 @@ export const ERROR_CODES = {
   METHOD_NOT_FOUND: -32601,
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
-  SERVER_ERROR: -32000 // -32000 to -32099 reserved for server errors
+  SERVER_ERROR: -32000, // -32000 to -32099 reserved for server errors
+  REQUEST_CANCELLED: -32800 // Raised by the client when a request is aborted through its AbortSignal
 } as const;
 
 // Notification methods
 export const NOTIFICATION_METHODS = {
-  PROGRESS: '$/progress',
-  LOGGING_MESSAGE: 'notifications/message'
+  INITIALIZED: 'notifications/initialized',
+  PROGRESS: 'notifications/progress',
+  LOGGING_MESSAGE: 'notifications/message',
+  ROOTS_LIST_CHANGED: 'notifications/roots/list_changed',
+  CANCELLED: 'notifications/cancelled',
+  RESOURCE_UPDATED: 'notifications/resources/updated',
+  TOOLS_LIST_CHANGED: 'notifications/tools/list_changed',
+  RESOURCES_LIST_CHANGED: 'notifications/resources/list_changed',
+  PROMPTS_LIST_CHANGED: 'notifications/prompts/list_changed'
 } as const;
\ No newline at end of file
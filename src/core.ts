@@ -1,6 +1,6 @@
 import { DEFAULT_REQUEST_TIMEOUT_MS, JSONRPC_VERSION, MCP_PROTOCOL_VERSION, INIT_TIMEOUT_MAX_MS, API_METHODS, NOTIFICATION_METHODS } from './constants';
-import { ManagerConfig, ManagerOptions, ManagerStateType, Transport, ClientAPI, ManagerAPI, PendingRequests, JsonRpcResponse, ManagerStateInternals, ClientState, JsonRpcId, Progress, NotificationHandler } from './types';
-import { createMcpError, promiseWithTimeout, log, LOG_LEVELS, ManagerRegistryEntry, createJsonRpcRequest, createTransport, handleMessage, createClientApi, ClientStateInternals, disconnectClient } from './utils';
+import { ManagerConfig, ManagerOptions, ManagerStateType, Transport, ClientAPI, ManagerAPI, PendingRequests, ManagerStateInternals, ClientState, NotificationHandler, InitializeResult, Root, ResourceUpdatedListener } from './types';
+import { createTypedError, promiseWithTimeout, log, LOG_LEVELS, ManagerRegistryEntry, createJsonRpcRequest, createTransport, handleMessage, createClientApi, ClientStateInternals, disconnectClient, rejectPendingRequests, withServerOutput, negotiateProtocolVersion, findMissingCapabilities, createRequestRouter, createResourceSubscriptions, ResourceSubscriptions, catalogForNotification, createSamplingRequestHandler, createElicitationRequestHandler, buildClientCapabilities, validateRoots, createJsonRpcNotification } from './utils';
 
 // Global counter for manager instance IDs
 let managerIdCounter = 0;
@@ -28,6 +28,18 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
     options: {
       onNotification: options?.onNotification ?? (() => {}),
       requestTimeoutMs: options?.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+      resetTimeoutOnProgress: options?.resetTimeoutOnProgress ?? false,
+      requestHandlers: options?.requestHandlers ?? {},
+      samplingHandler: options?.samplingHandler,
+      roots: options?.roots,
+      elicitationHandler: options?.elicitationHandler,
+      cacheCatalog: options?.cacheCatalog ?? false,
+      onCatalogChanged: options?.onCatalogChanged,
+      errorPolicy: options?.errorPolicy ?? 'strict',
+      lenientFallback: options?.lenientFallback,
+      capabilityCheck: options?.capabilityCheck ?? 'enforce',
+      capabilityGating: options?.capabilityGating ?? 'failFast',
+      throwOnToolError: options?.throwOnToolError ?? false,
     },
     activeClients: {}, // This manager's active clients
   };
@@ -36,6 +48,19 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
   const pendingConnections = new Map<string, Promise<void>>();
   const pendingDisconnections = new Map<string, Promise<void>>();
   
+  // Resource listeners per server; they outlive a dropped client so reconnects can restore them
+  const resourceSubscriptions = new Map<string, ResourceSubscriptions>();
+  const getResourceSubscriptions = (serverName: string): ResourceSubscriptions => {
+    const existing = resourceSubscriptions.get(serverName);
+    if (existing) return existing;
+    const created = createResourceSubscriptions(serverName);
+    resourceSubscriptions.set(serverName, created);
+    return created;
+  };
+  
+  // Roots passed to the manager's setRoots(); they replace configured roots, reconnects included
+  let managerRoots: ReadonlyArray<Root> | undefined;
+  
   // Update state immutably
   const updateState = (newState: ManagerStateType): void => { 
     state = { ...newState }; 
@@ -91,13 +116,14 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
     const connectionPromise = (async (): Promise<ManagerStateType> => {
       // Get latest config for server (it might have changed)
       const serverConfig = state.config[serverName];
-      if (!serverConfig) throw createMcpError(`Server configuration not found: "${serverName}"`);
+      if (!serverConfig) throw createTypedError('initialization', `Server configuration not found: "${serverName}"`, { serverName });
       
       const pendingRequests: PendingRequests = new Map();
       let transport: Transport | null = null;
       let clientStateInternals: ClientStateInternals | null = null;
       
       const cleanup = () => {
+        if (clientStateInternals) resourceSubscriptions.get(serverName)?.detach(clientStateInternals.sendRequest);
         if (transport) transport.close().catch(err => console.error(`Error closing transport:`, err));
         if (state.activeClients[serverName]) {
           // Create a new state with this client removed
@@ -113,27 +139,19 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
       };
       
       try {
-        // Create a custom notification handler for this specific client
-        // that wraps the global handler but adds special handling for progress notifications
+        // Notifications go to the global handler; progress has already been routed to its request
         const handleClientNotification: NotificationHandler = (clientName: string, notification) => {
-          // Let the global handler process all notifications
-          if (state.options.onNotification) {
-            state.options.onNotification(clientName, notification);
+          state.options.onNotification(clientName, notification);
+          
+          const changedCatalog = catalogForNotification(notification.method);
+          if (changedCatalog) {
+            clientStateInternals?.invalidateCatalog(changedCatalog);
+            state.options.onCatalogChanged?.(clientName, changedCatalog);
           }
           
-          // Special handling for progress notifications to route them to specific requests
-          if (notification.method === NOTIFICATION_METHODS.PROGRESS && notification.params) {
-            const progressParams = notification.params as unknown as { 
-              requestId: JsonRpcId;
-              progress: Progress;
-            };
-            
-            if (progressParams.requestId && pendingRequests.has(progressParams.requestId)) {
-              const resolver = pendingRequests.get(progressParams.requestId);
-              if (resolver?.onProgress && progressParams.progress) {
-                resolver.onProgress(progressParams.progress);
-              }
-            }
+          const uri = (notification.params as { uri?: unknown } | undefined)?.uri;
+          if (notification.method === NOTIFICATION_METHODS.RESOURCE_UPDATED && typeof uri === 'string') {
+            resourceSubscriptions.get(clientName)?.notify({ serverName: clientName, uri });
           }
         };
         
@@ -141,6 +159,8 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
         const onError = (error: Error) => { 
           if (!clientStateInternals?.intentionalDisconnect) {
             log(LOG_LEVELS.ERROR, `Error from ${serverName}:`, error); 
+            // The client is dropped, so nothing pending can be answered anymore
+            rejectPendingRequests(pendingRequests, serverName, error);
             cleanup(); 
           }
         };
@@ -161,26 +181,131 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
             log(LOG_LEVELS.WARN, `${exitMsg} (unexpected)`);
             // Only report errors for truly unexpected exits
             if (normalizedCode !== null && normalizedCode > 1 && normalizedCode !== 143) {
-              onError(createMcpError(exitMsg));
+              onError(withServerOutput(createTypedError('transportClosed', exitMsg, { serverName }, undefined, { exitCode: normalizedCode }), serverName, serverConfig.transport, transport));
             }
           }
         };
         
+        // Per-server handlers take precedence over the manager-wide ones
+        const samplingHandler = serverConfig.samplingHandler ?? state.options.samplingHandler;
+        const elicitationHandler = serverConfig.elicitationHandler ?? state.options.elicitationHandler;
+        // Roots are only answered and advertised when configured; setRoots() replaces them later
+        const configuredRoots = managerRoots ?? serverConfig.roots ?? state.options.roots;
+        let roots = configuredRoots ? validateRoots(serverName, configuredRoots) : undefined;
+
+        const requestHandlers = {
+          ...state.options.requestHandlers,
+          ...(samplingHandler ? { [API_METHODS.CREATE_MESSAGE]: createSamplingRequestHandler(samplingHandler) } : {}),
+          ...(roots ? { [API_METHODS.LIST_ROOTS]: () => ({ roots }) } : {}),
+          ...(elicitationHandler ? { [API_METHODS.ELICIT]: createElicitationRequestHandler(elicitationHandler) } : {}),
+        };
+
+        // Requests from the server are answered over the same transport
+        const routeRequest = createRequestRouter(
+          serverName,
+          requestHandlers,
+          response => transport ? transport.send(response) : Promise.reject(createTypedError('transportClosed', `No transport for ${serverName}`, { serverName }))
+        );
+        
+        // One initialize round trip, run on connect and again whenever the transport starts a new session
+        const initialize = async (connection: Transport): Promise<InitializeResult> => {
+          const initRequest = createJsonRpcRequest(API_METHODS.INITIALIZE, { 
+            protocolVersion: MCP_PROTOCOL_VERSION, 
+            clientInfo: {
+              name: "mcp-client-plugin",
+              version: "0.1.0"
+            },
+            capabilities: buildClientCapabilities({ sampling: samplingHandler, roots, elicitation: elicitationHandler })
+          });
+
+          // Register the pending request before sending, since some transports
+          // (e.g. Streamable HTTP with JSON responses) deliver the response during send
+          const initTimeoutMs = Math.min(state.options.requestTimeoutMs, INIT_TIMEOUT_MAX_MS);
+          const initOrigin = { serverName, method: API_METHODS.INITIALIZE, requestId: initRequest.id };
+          const initPromise = new Promise<InitializeResult>((resolve, reject) => {
+            const timeoutTimer = setTimeout(() => {
+              pendingRequests.delete(initRequest.id);
+              reject(createTypedError('timeout', `Initialization timed out after ${initTimeoutMs}ms`, initOrigin));
+            }, initTimeoutMs);
+
+            pendingRequests.set(initRequest.id, {
+              resolve: resolve as (value: unknown) => void,
+              reject, 
+              timeoutTimer,
+              method: API_METHODS.INITIALIZE
+            });
+          });
+          // If sending fails, initPromise is rejected without ever being awaited
+          initPromise.catch(() => {});
+          await connection.send(initRequest);
+
+          return promiseWithTimeout(
+            initPromise,
+            initTimeoutMs,
+            () => pendingRequests.delete(initRequest.id),
+            `Initialization timed out after ${initTimeoutMs}ms`,
+            initOrigin
+          );
+        };
+
+        // Completes initialization; a failed send is logged, as the server may still work without it
+        const sendInitialized = async (connection: Transport): Promise<void> => {
+          try {
+            await connection.send({ jsonrpc: JSONRPC_VERSION, ...createJsonRpcNotification(NOTIFICATION_METHODS.INITIALIZED) });
+          } catch (err) {
+            log(LOG_LEVELS.WARN, `Server ${serverName} could not be sent the 'notifications/initialized' notification: ${err}`);
+          }
+        };
+
+        // Subscribes again to what was listened to before the previous connection or session was lost
+        const restoreSubscriptions = async (serverCapabilities: InitializeResult['capabilities'], internals: ClientStateInternals): Promise<void> => {
+          const subscriptions = resourceSubscriptions.get(serverName);
+          if ((serverCapabilities?.resources as { subscribe?: unknown } | undefined)?.subscribe === true) {
+            await getResourceSubscriptions(serverName).attach(internals.sendRequest);
+          } else if (subscriptions && subscriptions.uris().length > 0) {
+            log(LOG_LEVELS.WARN, `Server ${serverName} no longer supports resource subscriptions; ${subscriptions.uris().length} subscription(s) are inactive`);
+          }
+        };
+
+        // A reconnect onto a new session loses the old one: nothing pending will be answered,
+        // and the server has to be initialized again before it accepts requests
+        const onReconnect = () => {
+          rejectPendingRequests(pendingRequests, serverName, createTypedError(
+            'transportClosed',
+            `Connection to ${serverName} was re-established with a new session; the request was not answered`,
+            { serverName }
+          ));
+          // Until use() has finished, its own initialize retries take care of the new session
+          if (!transport || !clientStateInternals) return;
+          
+          const connection = transport;
+          const internals = clientStateInternals;
+          initialize(connection)
+            .then(async result => {
+              negotiateProtocolVersion(serverName, result);
+              await sendInitialized(connection);
+              // The new session knows nothing of the old one's subscriptions
+              await restoreSubscriptions(result.capabilities, internals);
+            })
+            .then(() => log(LOG_LEVELS.INFO, `Re-initialized ${serverName} after reconnecting`))
+            .catch(err => onError(err instanceof Error ? err : new Error(String(err))));
+        };
+
         transport = await createTransport(
           serverName, serverConfig.transport,
-          msg => handleMessage(msg, serverName, pendingRequests, handleClientNotification),
-          onError, onExit
+          msg => handleMessage(msg, serverName, pendingRequests, handleClientNotification, routeRequest),
+          onError, onExit, onReconnect
         );
         
         // Initialize the server with retry logic
-        const maxRetries = serverConfig.transport.type === 'stdio' && 
+        const maxRetries = (serverConfig.transport.type === 'stdio' || serverConfig.transport.type === 'socket') && 
                          serverConfig.transport.options?.initializationRetries ? 
                          serverConfig.transport.options.initializationRetries : 2;
-        const retryDelayMs = serverConfig.transport.type === 'stdio' && 
+        const retryDelayMs = (serverConfig.transport.type === 'stdio' || serverConfig.transport.type === 'socket') && 
                            serverConfig.transport.options?.initializationRetryDelay ? 
                            serverConfig.transport.options.initializationRetryDelay : 500;
                            
-        let initResponse: JsonRpcResponse | null = null;
+        let initResult: InitializeResult | null = null;
         let lastError: Error | null = null;
         
         for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -191,37 +316,7 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
               await new Promise(resolve => setTimeout(resolve, retryDelayMs));
             }
             
-            const initRequest = createJsonRpcRequest(API_METHODS.INITIALIZE, { 
-              protocolVersion: MCP_PROTOCOL_VERSION, 
-              clientInfo: {
-                name: "mcp-client-plugin",
-                version: "0.1.0"
-              },
-              capabilities: {} 
-            });
-            await transport.send(initRequest);
-
-            // Wait for initialization response
-            const initTimeoutMs = Math.min(state.options.requestTimeoutMs, INIT_TIMEOUT_MAX_MS);
-            const initPromise = new Promise<JsonRpcResponse>((resolve, reject) => {
-              const timeoutTimer = setTimeout(() => {
-                pendingRequests.delete(initRequest.id);
-                reject(createMcpError(`Initialization timed out after ${initTimeoutMs}ms`));
-              }, initTimeoutMs);
-              
-              pendingRequests.set(initRequest.id, {
-                resolve: resolve as (value: unknown) => void,
-                reject, 
-                timeoutTimer
-              });
-            });
-
-            initResponse = await promiseWithTimeout(
-              initPromise,
-              initTimeoutMs,
-              () => pendingRequests.delete(initRequest.id),
-              `Initialization timed out after ${initTimeoutMs}ms`
-            );
+            initResult = await initialize(transport);
             
             // If we get here, initialization succeeded
             break;
@@ -245,21 +340,29 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
           }
         }
 
-        if (!initResponse) {
-          throw lastError || createMcpError(`Failed to initialize ${serverName}`);
+        if (!initResult) {
+          throw lastError || createTypedError('initialization', `Failed to initialize ${serverName}`, { serverName, method: API_METHODS.INITIALIZE });
         }
 
-        if ('error' in initResponse && initResponse.error) {
-          throw createMcpError(`Initialization failed: ${initResponse.error.message}`, 
-            initResponse.error.code, initResponse.error.data);
-        }
+        // Setup client; error responses have already been turned into rejections
+        const protocolVersion = negotiateProtocolVersion(serverName, initResult);
+        const capabilities = { ...initResult.capabilities };
 
-        // Setup client 
-        const capabilities = (initResponse.result as { capabilities?: Record<string, unknown> } || {}).capabilities ?? {};
+        // A misconfigured server fails here rather than during some later request
+        const missingCapabilities = findMissingCapabilities(serverConfig.requiredCapabilities ?? {}, capabilities);
+        if (missingCapabilities.length > 0) {
+          const message = `Server ${serverName} is missing required capabilities: ${missingCapabilities.join(', ')}`;
+          if ((serverConfig.capabilityCheck ?? state.options.capabilityCheck) === 'warn') {
+            log(LOG_LEVELS.WARN, message);
+          } else {
+            throw createTypedError('initialization', message, { serverName, method: API_METHODS.INITIALIZE }, undefined, { missingCapabilities });
+          }
+        }
         
         // Create the client API
         const [clientApi, internals] = createClientApi(
           serverName, transport, pendingRequests, capabilities, 
+          { protocolVersion, serverInfo: initResult.serverInfo, instructions: initResult.instructions },
           state
         );
         
@@ -274,8 +377,9 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
           
           const disconnectionPromise = (async (): Promise<void> => {
             try {
-              // Mark this disconnection as intentional
+              // Mark this disconnection as intentional; its resource listeners end with it
               internals.setIntentionalDisconnect(true);
+              resourceSubscriptions.delete(serverName);
               log(LOG_LEVELS.INFO, `Disconnecting client ${serverName}`);
               
               // Disconnect the client using the helper function
@@ -298,10 +402,33 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
           return disconnectionPromise;
         };
         
-        // Add the disconnect method to the client API
+        const connectedTransport = transport;
+        const setRoots = async (nextRoots: ReadonlyArray<Root>): Promise<void> => {
+          if (!roots) {
+            throw createTypedError(
+              'unsupported',
+              `Roots are not enabled for ${serverName}; configure roots to advertise the capability`,
+              { serverName },
+              undefined,
+              { capability: 'roots' }
+            );
+          }
+          roots = validateRoots(serverName, nextRoots);
+          await connectedTransport.send({ jsonrpc: JSONRPC_VERSION, ...createJsonRpcNotification(NOTIFICATION_METHODS.ROOTS_LIST_CHANGED) });
+        };
+        
+        const supportsSubscriptions = (capabilities.resources as { subscribe?: unknown } | undefined)?.subscribe === true;
+        
+        // Add the disconnect, roots and subscription methods to the client API
         const clientAPIWithDisconnect = Object.freeze({
           ...clientApi,
           disconnect,
+          getRoots: () => roots,
+          setRoots,
+          ...(supportsSubscriptions ? {
+            subscribeResource: (uri: string, listener: ResourceUpdatedListener) =>
+              getResourceSubscriptions(serverName).subscribe(uri, listener)
+          } : {}),
           getIntentionalDisconnect: clientApi.getIntentionalDisconnect
         });
         
@@ -324,30 +451,23 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
         // Register this manager in the global registry
         registerInGlobalRegistry(serverName);
         
-        // Complete initialization
-        // Check if the server supports 'initialized' notification by treating errors as non-fatal
-        try {
-          await transport.send(createJsonRpcRequest(API_METHODS.INITIALIZED, {}));
-        } catch (err) {
-          // If the server rejects the 'initialized' notification, log but continue
-          log(LOG_LEVELS.WARN, `Server ${serverName} does not support 'initialized' notification: ${err}`);
-        }
+        await sendInitialized(transport);
+        
+        await restoreSubscriptions(capabilities, internals);
         return state;
       } catch (err) {
         // Cleanup on error
         if (clientStateInternals) clientStateInternals.setIntentionalDisconnect(true);
-        pendingRequests.forEach(resolver => {
-          if (resolver.timeoutTimer) clearTimeout(resolver.timeoutTimer as number);
-          resolver.reject(err);
-        });
-        
-        pendingRequests.clear();
+        rejectPendingRequests(pendingRequests, serverName, err);
         cleanup();
-        throw err;
+        throw withServerOutput(err, serverName, serverConfig.transport, transport);
       }
     })();
     
-    pendingConnections.set(serverName, connectionPromise.then(() => {}));
+    const settled = connectionPromise.then(() => {});
+    // The failure is reported by use(); waiters still see it, but nobody else must
+    settled.catch(() => {});
+    pendingConnections.set(serverName, settled);
     
     try { 
       return await connectionPromise; 
@@ -369,6 +489,7 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
         getClient: managerAPI.getClient,
         getClientAsync: managerAPI.getClientAsync,
         disconnectAll: managerAPI.disconnectAll,
+        setRoots: managerAPI.setRoots,
         _getState: managerAPI._getState
       });
     },
@@ -445,6 +566,17 @@ export const manager = (config: ManagerConfig, options?: ManagerOptions): Manage
       }
     },
     
+    setRoots: async (roots: ReadonlyArray<Root>): Promise<void> => {
+      const clients = getClientApis(state.activeClients).filter(client => client.getRoots() !== undefined);
+      const validated = validateRoots('manager', roots);
+      managerRoots = validated;
+      updateState({
+        ...state,
+        options: { ...state.options, roots: validated }
+      });
+      await Promise.all(clients.map(client => client.setRoots(validated)));
+    },
+    
     _getState: (): ManagerStateInternals => ({
       state,
       updateState,
@@ -2,12 +2,20 @@ export { manager } from './core';
 export { 
   JSONRPC_VERSION, 
   DEFAULT_REQUEST_TIMEOUT_MS, 
-  MCP_PROTOCOL_VERSION 
+  MCP_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ERROR_CODES
 } from './constants';
 
 export {
   createMcpServerWrapper,
+  createMemoryChannelPair,
+  ndjsonCodec,
+  contentLengthCodec,
   enableMcpDebugging,
+  isMcpError,
+  getText,
+  getImages,
   LOG_LEVELS
 } from './utils';
 
@@ -25,24 +33,95 @@ export {
 export type {
   // Configuration Types
   StdioTransportConfig,
+  MessageCodec,
+  MessageFraming,
   SseTransportConfig,
+  SseReconnectPolicy,
+  HttpTransportConfig,
+  WebSocketTransportConfig,
+  SocketTransportConfig,
+  MemoryTransportConfig,
+  MemoryChannel,
+  MemoryServerHandler,
   TransportConfig,
   ServerConfig,
   ManagerConfig,
   ManagerOptions,
+  ErrorPolicy,
+  CapabilityCheck,
+  CapabilityGating,
+  CapabilityPath,
   
   // API Types
   ManagerAPI,
   ClientAPI,
+  RequestOptions,
+  CallToolOptions,
+  Page,
+  PageOptions,
+  PaginationOptions,
+  ListOptions,
   
   // Entity Types
   Tool,
   Resource,
   Prompt,
   PromptArgument,
+  Implementation,
+  InitializeResult,
+  
+  // Content Types
+  TextContent,
+  ImageContent,
+  AudioContent,
+  EmbeddedResource,
+  ResourceLink,
+  ContentBlock,
+  CallToolResult,
+  
+  // Subscription Types
+  ResourceUpdatedEvent,
+  ResourceUpdatedListener,
+  ResourceUnsubscribe,
+  
+  // Roots Types
+  Root,
+  
+  // Sampling Types
+  SamplingContent,
+  SamplingMessage,
+  ModelPreferences,
+  CreateMessageRequest,
+  CreateMessageResult,
+  
+  // Elicitation Types
+  ElicitationPropertySchema,
+  ElicitationSchema,
+  ElicitRequest,
+  ElicitResult,
   
   // Callback Types
   NotificationHandler,
+  ServerRequestHandler,
+  SamplingHandler,
+  CatalogChangedHandler,
+  CatalogKind,
+  ElicitationHandler,
+  LenientFallback,
+  
+  // Error Types
+  McpErrorKind,
+  McpErrorOrigin,
+  McpError,
+  McpTimeoutError,
+  McpTransportClosedError,
+  McpProtocolError,
+  McpServerError,
+  McpInitializationError,
+  McpAbortError,
+  McpUnsupportedError,
+  McpQueueFullError,
+  McpToolError,
   
   // JSON-RPC Types
   JsonRpcRequest,
@@ -56,7 +135,9 @@ export type {
 // Export compatibility types
 export type {
   EventSourceCompatible,
-  ReaderCompatible
+  ReaderCompatible,
+  WebSocketCompatible,
+  SinkCompatible
 } from './types'; 
 
 export type {
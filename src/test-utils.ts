@@ -1,8 +1,9 @@
 import path from 'node:path';
 import { existsSync } from 'node:fs';
-import { LOG_LEVELS, log, logError } from './utils';
+import { LOG_LEVELS, log, logError, createJsonRpcResponse } from './utils';
+import { API_METHODS, NOTIFICATION_METHODS, MCP_PROTOCOL_VERSION } from './constants';
 import { createMcpServerWrapper } from './utils';
-import { ManagerConfig, StdioTransportConfig } from './types';
+import { CallToolResult, ManagerConfig, ManagerOptions, StdioTransportConfig, TextContent, JsonRpcId, JsonRpcMessage, JsonRpcNotification, JsonRpcRequest, JsonRpcResponse, MemoryServerHandler } from './types';
 
 /**
  * Available package execution methods
@@ -303,25 +304,124 @@ export const createTestEnvironment = (
   }, {} as ManagerConfig);
 };
 
+const COMPLETION_COUNTRIES = ['Germany', 'France', 'Japan', 'Canada', 'Australia'];
+
+// A property of a JSON value, or undefined when the value is not an object
+const field = (value: unknown, key: string): unknown =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+// Placeholder results by method, in the shape the server would have answered with
+const createPlaceholderResult = (
+  serverName: string,
+  request: Readonly<{ method: string; params?: unknown }>,
+  options?: ManagerOptions
+): unknown => {
+  const params = request.params;
+  switch (request.method) {
+    case API_METHODS.CALL_TOOL:
+      return field(params, 'name') === 'slowCalculate' ? { content: [{ type: 'text', text: '4' }] } : { content: [] };
+    case API_METHODS.READ_RESOURCE:
+      return { contents: [] };
+    case API_METHODS.LIST_RESOURCES:
+      return {
+        resources: [
+          {
+            uri: 'file://test.txt',
+            name: 'Test File',
+            description: 'A test file for unit tests',
+            mimeType: 'text/plain'
+          }
+        ]
+      };
+    case API_METHODS.LIST_PROMPTS:
+      return {
+        prompts: [
+          {
+            name: 'countryPoem',
+            description: 'Generates a poem about a country',
+            arguments: [{ name: 'countryName', description: 'Name of the country', required: true }]
+          }
+        ]
+      };
+    case API_METHODS.GET_PROMPT: {
+      const name = String(field(params, 'name'));
+      return {
+        description: `Mock prompt for ${name}`,
+        messages: [
+          {
+            role: 'system',
+            content: { type: 'text', text: `This is a mock prompt message for ${name}` }
+          }
+        ]
+      };
+    }
+    case API_METHODS.LIST_RESOURCE_TEMPLATES:
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: 'file://{filename}',
+            name: 'file',
+            description: 'Creates a new file',
+            arguments: [{ name: 'filename', description: 'Name of the file to create', required: true }]
+          }
+        ]
+      };
+    case API_METHODS.COMPLETE: {
+      const ref = field(params, 'ref');
+      if (field(ref, 'type') === 'ref/prompt' && field(ref, 'name') === 'countryPoem') {
+        const value = String(field(field(params, 'argument'), 'value') ?? '').toLowerCase();
+        const country = COMPLETION_COUNTRIES.find(name => value.includes(name.slice(0, 3).toLowerCase()));
+        if (country) return { completion: { values: [country] } };
+      }
+      return { completion: { values: COMPLETION_COUNTRIES.slice(0, 3) } };
+    }
+    case API_METHODS.SET_LOGGING_LEVEL:
+      if (field(params, 'level') === 'debug') {
+        options?.onNotification?.(serverName, {
+          method: NOTIFICATION_METHODS.LOGGING_MESSAGE,
+          params: { level: 'debug', message: 'Debug logging enabled (mock)' }
+        });
+      }
+      return {};
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Returns manager options with the lenient error policy and placeholder data for it, for tests
+ * whose servers lack features the test still exercises. The client never makes up results;
+ * the placeholders live only here.
+ */
+export const createLenientManagerOptions = (options?: ManagerOptions): ManagerOptions => ({
+  ...options,
+  errorPolicy: 'lenient',
+  lenientFallback: (serverName, request, error) => {
+    const placeholder = createPlaceholderResult(serverName, request, options);
+    if (placeholder === undefined) throw error;
+    return placeholder;
+  }
+});
+
 /**
  * Helper type for calculator server responses
+ * @deprecated Use `CallToolResult`, which `callTool` now returns
  */
-export type CalculatorToolResponse = {
-  content?: Array<{ type: string; text: string }>;
-};
+export type CalculatorToolResponse = CallToolResult;
 
 /**
  * Helper function to extract text from calculator server responses
  */
-export const extractCalculatorText = (response: CalculatorToolResponse): string => {
-  return response.content?.[0]?.text || '';
+export const extractCalculatorText = (response: CallToolResult): string => {
+  const block = response.content?.find((item): item is TextContent => item.type === 'text');
+  return block?.text || '';
 };
 
 /**
  * Helper function to assert calculator operation results
  */
 export const assertCalculatorResult = (
-  response: CalculatorToolResponse, 
+  response: CallToolResult, 
   expectedResult: number | string
 ): void => {
   const text = extractCalculatorText(response);
@@ -597,4 +697,85 @@ export const createCalculatorServerConfig = (
       }
     };
   }
-}; 
\ No newline at end of file
+}; 
+/**
+ * What an in-process test server does with a request after the handshake: return the
+ * response, or nothing to leave the request unanswered
+ */
+export type MemoryTestRequestHandler = (
+  request: JsonRpcRequest,
+  sendToClient: (message: JsonRpcMessage) => void
+) => JsonRpcResponse | void | Promise<JsonRpcResponse | void>;
+
+export type MemoryTestServerOptions = Readonly<{
+  protocolVersion?: string; // Offered in the initialize result (default: the latest revision)
+  capabilities?: Readonly<Record<string, unknown>>; // Declared in the initialize result (default: none)
+  initializeResult?: Readonly<Record<string, unknown>>; // Replaces the whole initialize result
+  onRequest?: MemoryTestRequestHandler; // Answers requests after the handshake (default: an empty result)
+}>;
+
+/**
+ * Returns an in-process server for `memory` transports that answers the handshake and records
+ * what the client sends: every method in `methods`, and requests other than initialize in
+ * `requests`. Tests add their own behaviour through onRequest.
+ */
+export const createMemoryTestServer = (options: MemoryTestServerOptions = {}) => {
+  const methods: string[] = [];
+  const initializeRequests: JsonRpcRequest[] = [];
+  const requests: JsonRpcRequest[] = [];
+  const notifications: JsonRpcNotification[] = [];
+  const responses = new Map<JsonRpcId, JsonRpcResponse>();
+  let sendToClient: ((message: JsonRpcMessage) => void) | undefined;
+  let requestCounter = 0;
+
+  const handler: MemoryServerHandler = (message, send) => {
+    sendToClient = send;
+    if (!('method' in message)) {
+      if ('id' in message) responses.set(message.id, message as JsonRpcResponse);
+      return;
+    }
+    methods.push(message.method);
+    if (!('id' in message)) {
+      notifications.push(message as JsonRpcNotification);
+      return;
+    }
+    const request = message as JsonRpcRequest;
+    if (request.method === API_METHODS.INITIALIZE) {
+      initializeRequests.push(request);
+      return createJsonRpcResponse(request.id, options.initializeResult ?? {
+        protocolVersion: options.protocolVersion ?? MCP_PROTOCOL_VERSION,
+        capabilities: options.capabilities ?? {}
+      });
+    }
+    requests.push(request);
+    return options.onRequest ? options.onRequest(request, send) : createJsonRpcResponse(request.id, {});
+  };
+
+  // Polls until condition holds, for at most about 250ms
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    for (let attempt = 0; attempt < 50 && !condition(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  // Sends a request to the client and waits for its answer
+  const request = async (method: string, params?: unknown): Promise<JsonRpcResponse> => {
+    const id = `server-${++requestCounter}`;
+    sendToClient?.({ jsonrpc: '2.0', id, method, params });
+    await waitFor(() => responses.has(id));
+    const response = responses.get(id);
+    if (!response) throw new Error(`No response to ${method}`);
+    return response;
+  };
+
+  // Sends a notification to the client and gives it a moment to arrive
+  const notify = async (method: string, params?: unknown): Promise<void> => {
+    sendToClient?.({ jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}) });
+    await new Promise(resolve => setTimeout(resolve, 5));
+  };
+
+  const advertisedCapabilities = () =>
+    (initializeRequests[0]?.params as { capabilities?: Record<string, unknown> } | undefined)?.capabilities;
+
+  return { handler, methods, initializeRequests, requests, notifications, request, notify, waitFor, advertisedCapabilities };
+};
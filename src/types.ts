@@ -2,6 +2,15 @@ import type { Subprocess } from 'bun';
 
 // --- Configuration Types ---
 
+// Splits incoming text into frames and serializes outgoing messages into frames
+export type MessageCodec = Readonly<{
+  decode: (buffer: string) => Readonly<{ frames: ReadonlyArray<string>; rest: string }>; // `rest` is kept for the next chunk
+  encode: (message: JsonRpcMessage) => string;
+}>;
+
+// Built-in framings: newline-delimited JSON, or LSP-style `Content-Length:` headers
+export type MessageFraming = 'ndjson' | 'content-length' | MessageCodec;
+
 export type StdioTransportConfig = Readonly<{
   type: 'stdio';
   command: string;
@@ -13,21 +22,94 @@ export type StdioTransportConfig = Readonly<{
     debugMode?: boolean; // Log all raw communication
     initializationRetries?: number; // Number of times to retry initialization
     initializationRetryDelay?: number; // Delay between retries (ms)
+    framing?: MessageFraming; // How messages are delimited on stdin/stdout (default: 'ndjson')
+    maxMessageSize?: number; // Bytes per message; larger ones fail only the affected request (default: 64 MiB)
+    maxQueuedMessages?: number; // Outbound messages allowed to wait for stdin; more are rejected (default: 1000)
+    stderrBufferLines?: number; // Recent stderr lines kept for getStderr() and error context (default: 100)
   };
 }>;
 
+export type SseReconnectPolicy = Readonly<{
+  maxAttempts?: number; // Attempts before pending requests are failed (0 disables reconnection)
+  baseDelayMs?: number; // Delay before the first attempt, doubled on each subsequent one
+  jitterMs?: number; // Upper bound of the random delay added to each attempt
+}>;
+
 export type SseTransportConfig = Readonly<{
   type: 'sse';
-  url: string; // URL for SSE endpoint and POST requests
+  url: string; // URL of the event stream; POSTs go to the URL announced by its `endpoint` event
   headers?: Readonly<Record<string, string>>;
+  reconnect?: SseReconnectPolicy; // How to recover when the stream drops after connecting
 }>;
 
-export type TransportConfig = StdioTransportConfig | SseTransportConfig;
+export type HttpTransportConfig = Readonly<{
+  type: 'http';
+  url: string; // Single MCP endpoint for POST, GET and DELETE requests
+  headers?: Readonly<Record<string, string>>;
+  options?: {
+    openGetStream?: boolean; // Open the optional GET stream for server-initiated messages (default: true)
+    sessionId?: string; // Resume an existing session instead of negotiating a new one
+  };
+}>;
+
+export type WebSocketTransportConfig = Readonly<{
+  type: 'websocket';
+  url: string; // ws:// or wss:// URL of the server
+  headers?: Readonly<Record<string, string>>; // Sent with the upgrade request
+  protocols?: string | ReadonlyArray<string>; // Subprotocol(s) to negotiate (default: none)
+  options?: {
+    pingIntervalMs?: number; // Keepalive ping interval; a missed pong closes the connection (0 disables)
+    connectionTimeoutMs?: number; // Time allowed for the socket to open
+  };
+}>;
+
+export type SocketTransportConfig = Readonly<{
+  type: 'socket';
+  options?: {
+    ignoreNonJsonLines?: boolean; // Ignore non-JSON lines
+    debugMode?: boolean; // Log all raw communication
+    initializationRetries?: number; // Number of times to retry connecting and initialization
+    initializationRetryDelay?: number; // Delay between retries (ms)
+    connectionTimeoutMs?: number; // Time allowed for the connection to be established
+    maxMessageSize?: number; // Bytes per message; larger ones fail only the affected request (default: 64 MiB)
+  };
+}> & (
+  | Readonly<{ path: string }> // Unix domain socket path
+  | Readonly<{ host?: string; port: number }> // TCP address (host defaults to localhost)
+);
+
+// One end of an in-process message channel; see createMemoryChannelPair
+export type MemoryChannel = Readonly<{
+  postMessage: (message: JsonRpcMessage) => void; // Deliver a message to the other end
+  onMessage: (listener: (message: JsonRpcMessage) => void) => () => void; // Returns an unsubscribe function
+  close: () => void; // Closes both ends
+  onClose: (listener: () => void) => () => void; // Returns an unsubscribe function
+}>;
+
+// An in-process server: answers requests by returning a response, and may push
+// notifications or requests to the client at any time through sendToClient
+export type MemoryServerHandler = (
+  message: JsonRpcMessage,
+  sendToClient: (message: JsonRpcMessage) => void
+) => JsonRpcResponse | void | Promise<JsonRpcResponse | void>;
+
+export type MemoryTransportConfig = Readonly<{ type: 'memory' }> & (
+  | Readonly<{ channel: MemoryChannel }> // The client's end of a channel pair
+  | Readonly<{ handler: MemoryServerHandler }>
+);
+
+export type TransportConfig = StdioTransportConfig | SseTransportConfig | HttpTransportConfig | WebSocketTransportConfig | SocketTransportConfig | MemoryTransportConfig;
 
 export type ServerConfig = Readonly<{
   transport: TransportConfig;
-  // Optional: Define capabilities client expects server to support
+  // Capabilities the server must declare in its initialize result, matched key by key (e.g. { tools: { listChanged: true } })
   requiredCapabilities?: Readonly<Record<string, unknown>>;
+  capabilityCheck?: CapabilityCheck; // Overrides ManagerOptions.capabilityCheck for this server
+  capabilityGating?: CapabilityGating; // Overrides ManagerOptions.capabilityGating for this server
+  samplingHandler?: SamplingHandler; // Overrides ManagerOptions.samplingHandler for this server
+  roots?: ReadonlyArray<Root>; // Overrides ManagerOptions.roots for this server until the manager's setRoots() is called
+  cacheCatalog?: boolean; // Overrides ManagerOptions.cacheCatalog for this server
+  elicitationHandler?: ElicitationHandler; // Overrides ManagerOptions.elicitationHandler for this server
 }>;
 
 export type ManagerConfig = Readonly<Record<string, ServerConfig>>;
@@ -64,6 +146,42 @@ export type JsonRpcResponse = Readonly<{
 
 export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification;
 
+// --- Error Types ---
+
+export type McpErrorKind =
+  | 'timeout' // A request or connection attempt took longer than allowed
+  | 'transportClosed' // The connection closed or could not carry the message
+  | 'protocol' // The server sent something that is not valid MCP
+  | 'server' // The server answered with a JSON-RPC error
+  | 'initialization' // The connection or initialize handshake failed
+  | 'abort' // The request was aborted through its AbortSignal
+  | 'unsupported' // The server did not declare the capability the request needs
+  | 'queueFull' // Too many messages were already waiting to be written to the server
+  | 'tool'; // A tool call returned isError: true and the caller asked for an exception
+
+// Where a failure happened; fields are absent when no request was involved
+export type McpErrorOrigin = Readonly<{
+  serverName?: string;
+  method?: string;
+  requestId?: JsonRpcId;
+}>;
+
+export type McpError<K extends McpErrorKind = McpErrorKind> = Error & McpErrorOrigin & Readonly<{
+  kind: K;
+  code?: number; // JSON-RPC error code, when there is one
+  data?: unknown;
+}>;
+
+export type McpTimeoutError = McpError<'timeout'>;
+export type McpTransportClosedError = McpError<'transportClosed'>;
+export type McpProtocolError = McpError<'protocol'>;
+export type McpServerError = McpError<'server'> & Readonly<{ code: number }>;
+export type McpInitializationError = McpError<'initialization'>;
+export type McpAbortError = McpError<'abort'>;
+export type McpUnsupportedError = McpError<'unsupported'>;
+export type McpQueueFullError = McpError<'queueFull'>;
+export type McpToolError = McpError<'tool'> & Readonly<{ data: CallToolResult }>; // data is the tool's result
+
 // --- Callback Types ---
 
 export type NotificationHandler = (
@@ -71,13 +189,74 @@ export type NotificationHandler = (
   notification: Readonly<Omit<JsonRpcNotification, 'jsonrpc'>>
 ) => void;
 
+// Lists a server can announce changes to; 'resources' covers resource templates too
+export type CatalogKind = 'tools' | 'resources' | 'prompts';
+
+export type CatalogChangedHandler = (serverName: string, catalog: CatalogKind) => void;
+
+// Answers a request the server sent to the client. The return value becomes the
+// response's result; a thrown error with a numeric `code` becomes a JSON-RPC error.
+export type ServerRequestHandler = (
+  serverName: string,
+  request: Readonly<Omit<JsonRpcRequest, 'jsonrpc' | 'id'>>
+) => unknown | Promise<unknown>;
+
+// Produces an LLM completion for a server's sampling/createMessage request
+export type SamplingHandler = (
+  serverName: string,
+  request: CreateMessageRequest
+) => CreateMessageResult | Promise<CreateMessageResult>;
+
+// Collects user input for a server's elicitation/create request
+export type ElicitationHandler = (
+  serverName: string,
+  request: ElicitRequest
+) => ElicitResult | Promise<ElicitResult>;
+
+// Supplies the result for a request that failed under the lenient error policy, in the shape
+// the server would have answered with; throwing (for example the error itself) rejects the request
+export type LenientFallback = (
+  serverName: string,
+  request: Readonly<Omit<JsonRpcRequest, 'jsonrpc' | 'id'>>,
+  error: Error
+) => unknown | Promise<unknown>;
+
 // --- Options ---
 
 export type ManagerOptions = Readonly<{
   onNotification?: NotificationHandler;
   requestTimeoutMs?: number; // Timeout for individual requests
+  resetTimeoutOnProgress?: boolean; // Restart a request's timeout whenever it reports progress (default: false)
+  requestHandlers?: Readonly<Record<string, ServerRequestHandler>>; // Server-to-client requests by method; `ping` is answered built in
+  samplingHandler?: SamplingHandler; // Lets servers request completions; advertises the `sampling` capability
+  roots?: ReadonlyArray<Root>; // Directories servers may work in; advertises the `roots` capability
+  elicitationHandler?: ElicitationHandler; // Asks the user for input servers request; advertises the `elicitation` capability
+  cacheCatalog?: boolean; // Keep list results until the server reports a list_changed (default: false)
+  onCatalogChanged?: CatalogChangedHandler; // Called when a server reports that a list changed
+  errorPolicy?: ErrorPolicy; // How server errors reach ClientAPI callers (default: 'strict')
+  lenientFallback?: LenientFallback; // Results for requests that fail under the 'lenient' policy
+  capabilityCheck?: CapabilityCheck; // What use() does when a server lacks its requiredCapabilities (default: 'enforce')
+  capabilityGating?: CapabilityGating; // Whether requests the server declared no capability for are sent (default: 'failFast')
+  throwOnToolError?: boolean; // Reject callTool with a 'tool' error when the result has isError: true (default: false)
 }>;
 
+// 'strict' rejects with the server's error. 'lenient' hands a request the server does not support
+// (an 'unsupported' error or a method-not-found, invalid-params, internal or server error) to
+// lenientFallback; timeouts, aborts and transport failures are never recovered.
+export type ErrorPolicy = 'strict' | 'lenient';
+
+// 'enforce' fails use() with an initialization error; 'warn' logs the missing capabilities and connects
+export type CapabilityCheck = 'enforce' | 'warn';
+
+// 'failFast' rejects requests for undeclared capabilities without sending them; 'probe' sends them anyway
+export type CapabilityGating = 'failFast' | 'probe';
+
+// Options with defaults applied; handlers without a default stay optional
+type OptionalManagerOptions = 'samplingHandler' | 'roots' | 'elicitationHandler' | 'onCatalogChanged' | 'lenientFallback';
+export type ResolvedManagerOptions = Readonly<
+  Required<Omit<ManagerOptions, OptionalManagerOptions>> & Pick<ManagerOptions, OptionalManagerOptions>
+>;
+
 // --- MCP Entity Types ---
 
 export type JsonSchema = Readonly<Record<string, unknown>>;
@@ -102,6 +281,17 @@ export type ResourceContent = Readonly<{
   mimeType?: string;
 }>;
 
+// Sent when a subscribed resource changes; read it again to get the new content
+export type ResourceUpdatedEvent = Readonly<{
+  serverName: string;
+  uri: string;
+}>;
+
+export type ResourceUpdatedListener = (event: ResourceUpdatedEvent) => void;
+
+// Removes a listener; the server subscription ends with the last listener for a URI
+export type ResourceUnsubscribe = () => Promise<void>;
+
 export type ReadResourceResult = Readonly<{
   contents: ReadonlyArray<ResourceContent>;
 }>;
@@ -157,44 +347,239 @@ export type CompleteResult = Readonly<{
 }>;
 
 export type Progress = Readonly<{
-  progress: number;
-  total: number;
+  progress: number; // Increases with every notification
+  total?: number; // Omitted when the server cannot tell how much work remains
+  message?: string;
 }>;
 
 export type LoggingLevel = 'debug' | 'info' | 'warning' | 'error';
 
+// --- Roots Types ---
+
+export type Root = Readonly<{
+  uri: string; // Must be a file:// URI
+  name?: string; // Human-readable label
+}>;
+
+// --- Content Types ---
+
+export type TextContent = Readonly<{ type: 'text'; text: string }>;
+export type ImageContent = Readonly<{ type: 'image'; data: string; mimeType: string }>; // Base64-encoded
+export type AudioContent = Readonly<{ type: 'audio'; data: string; mimeType: string }>; // Base64-encoded
+
+// A resource's contents inlined into a result: text, or base64-encoded binary data
+export type EmbeddedResource = Readonly<{
+  type: 'resource';
+  resource: Readonly<{ uri: string; mimeType?: string } & ({ text: string } | { blob: string })>;
+}>;
+
+// A reference to a resource the client can read with readResource
+export type ResourceLink = Readonly<{
+  type: 'resource_link';
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}>;
+
+export type ContentBlock = TextContent | ImageContent | AudioContent | EmbeddedResource | ResourceLink;
+
+// --- Tool Result Types ---
+
+export type CallToolResult<TStructured = Readonly<Record<string, unknown>>> = Readonly<{
+  content: ReadonlyArray<ContentBlock>;
+  structuredContent?: TStructured; // Matches the tool's outputSchema, when it declares one
+  isError?: boolean; // The tool ran but failed; content describes the failure
+}>;
+
+// --- Sampling Types ---
+
+export type SamplingContent = TextContent | ImageContent | AudioContent;
+
+export type SamplingMessage = Readonly<{
+  role: 'user' | 'assistant';
+  content: SamplingContent;
+}>;
+
+export type ModelPreferences = Readonly<{
+  hints?: ReadonlyArray<Readonly<{ name?: string }>>; // Model names or families, in order of preference
+  costPriority?: number; // 0-1
+  speedPriority?: number; // 0-1
+  intelligencePriority?: number; // 0-1
+}>;
+
+export type CreateMessageRequest = Readonly<{
+  messages: ReadonlyArray<SamplingMessage>;
+  modelPreferences?: ModelPreferences;
+  systemPrompt?: string;
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  temperature?: number;
+  maxTokens: number;
+  stopSequences?: ReadonlyArray<string>;
+  metadata?: Readonly<Record<string, unknown>>;
+}>;
+
+export type CreateMessageResult = Readonly<{
+  role: 'user' | 'assistant';
+  content: SamplingContent;
+  model: string; // Name of the model that produced the completion
+  stopReason?: 'endTurn' | 'stopSequence' | 'maxTokens' | string;
+}>;
+
+// --- Elicitation Types ---
+
+// Elicitation schemas are flat objects whose properties are primitives
+export type ElicitationPropertySchema =
+  | Readonly<{
+      type: 'string';
+      title?: string;
+      description?: string;
+      minLength?: number;
+      maxLength?: number;
+      format?: 'email' | 'uri' | 'date' | 'date-time';
+      enum?: ReadonlyArray<string>;
+      enumNames?: ReadonlyArray<string>; // Display names for enum values
+    }>
+  | Readonly<{
+      type: 'number' | 'integer';
+      title?: string;
+      description?: string;
+      minimum?: number;
+      maximum?: number;
+    }>
+  | Readonly<{
+      type: 'boolean';
+      title?: string;
+      description?: string;
+      default?: boolean;
+    }>;
+
+export type ElicitationSchema = Readonly<{
+  type: 'object';
+  properties: Readonly<Record<string, ElicitationPropertySchema>>;
+  required?: ReadonlyArray<string>;
+}>;
+
+export type ElicitRequest = Readonly<{
+  message: string; // Shown to the user to explain what is being asked
+  requestedSchema: ElicitationSchema;
+}>;
+
+export type ElicitResult =
+  | Readonly<{ action: 'accept'; content: Readonly<Record<string, string | number | boolean>> }>
+  | Readonly<{ action: 'decline' | 'cancel' }>;
+
+export type Implementation = Readonly<{
+  name: string;
+  version: string;
+  title?: string; // Display name, from protocol revision 2025-06-18
+}>;
+
+export type InitializeResult = Readonly<{
+  protocolVersion?: string; // Revision the server chose; required by the spec but missing from some servers
+  capabilities?: Readonly<Record<string, unknown>>;
+  serverInfo?: Implementation;
+  instructions?: string; // Hints on how to use the server, e.g. for a system prompt
+}>;
+
 // --- Client API ---
 
+// Per-call options accepted by ClientAPI methods
+export type RequestOptions = Readonly<{
+  signal?: AbortSignal; // Aborting cancels the request on the server and rejects with an AbortError
+}>;
+
+export type CallToolOptions = RequestOptions & Readonly<{
+  onProgress?: (progress: Progress) => void; // Sends a progressToken so the server can report progress
+  resetTimeoutOnProgress?: boolean; // Overrides ManagerOptions.resetTimeoutOnProgress for this call
+  throwOnToolError?: boolean; // Overrides ManagerOptions.throwOnToolError for this call
+}>;
+
+// One page of a list result; nextCursor is absent on the last page
+export type Page<T> = Readonly<{
+  items: ReadonlyArray<T>;
+  nextCursor?: string;
+}>;
+
+export type PageOptions = RequestOptions & Readonly<{
+  cursor?: string; // nextCursor of the previous page; omit for the first page
+}>;
+
+export type PaginationOptions = PageOptions & Readonly<{
+  maxPages?: number; // Pages read before failing, guarding against endless cursors (default: 100)
+}>;
+
+export type ListOptions = PaginationOptions & Readonly<{
+  all?: boolean; // Follow nextCursor and return every page instead of only the first
+}>;
+
+// Capabilities a server can declare, as paths into the capabilities of its initialize result
+export type CapabilityPath =
+  | 'tools'
+  | 'tools.listChanged'
+  | 'resources'
+  | 'resources.subscribe'
+  | 'resources.listChanged'
+  | 'prompts'
+  | 'prompts.listChanged'
+  | 'logging'
+  | 'completions';
+
 export type ClientAPI = Readonly<{
   /** Get the capabilities reported by the server during initialization. */
   getCapabilities: () => Readonly<Record<string, unknown>> | undefined;
 
+  /** Whether the server declared a capability, e.g. `supports('resources.subscribe')`. */
+  supports: (capability: CapabilityPath) => boolean;
+
   /** Call a tool on the server. */
-  callTool: <TResult = unknown>(
+  callTool: <TResult = CallToolResult>(
     name: string,
     params: Readonly<Record<string, unknown>>,
-    options?: Readonly<{
-      onProgress?: (progress: Progress) => void;
-    }>
+    options?: CallToolOptions
   ) => Promise<TResult>;
 
-  /** List available tools on the server. */
-  listTools: () => Promise<ReadonlyArray<Tool>>;
+  /** List available tools on the server: the first page, or every page with `all`. */
+  listTools: (options?: ListOptions) => Promise<ReadonlyArray<Tool>>;
+
+  /** Fetch one page of tools. */
+  listToolsPage: (options?: PageOptions) => Promise<Page<Tool>>;
+
+  /** Iterate over every tool, fetching pages as needed. */
+  iterateTools: (options?: PaginationOptions) => AsyncIterable<Tool>;
 
   /** Read the content of a resource from the server. */
-  readResource: (uri: string) => Promise<ReadResourceResult>;
+  readResource: (uri: string, options?: RequestOptions) => Promise<ReadResourceResult>;
+
+  /** List available resources on the server: the first page, or every page with `all`. */
+  listResources: (options?: ListOptions) => Promise<ReadonlyArray<Resource>>;
+
+  /** Fetch one page of resources. */
+  listResourcesPage: (options?: PageOptions) => Promise<Page<Resource>>;
 
-  /** List available resources on the server. */
-  listResources: () => Promise<ReadonlyArray<Resource>>;
+  /** Iterate over every resource, fetching pages as needed. */
+  iterateResources: (options?: PaginationOptions) => AsyncIterable<Resource>;
 
-  /** List available prompts on the server. */
-  listPrompts: () => Promise<ReadonlyArray<Prompt>>;
+  /** List available prompts on the server: the first page, or every page with `all`. */
+  listPrompts: (options?: ListOptions) => Promise<ReadonlyArray<Prompt>>;
+
+  /** Fetch one page of prompts. */
+  listPromptsPage: (options?: PageOptions) => Promise<Page<Prompt>>;
+
+  /** Iterate over every prompt, fetching pages as needed. */
+  iteratePrompts: (options?: PaginationOptions) => AsyncIterable<Prompt>;
 
   /** Get the definition of a specific prompt. */
-  getPrompt: (name: string, args?: Readonly<Record<string, unknown>>) => Promise<GetPromptResult>;
+  getPrompt: (name: string, args?: Readonly<Record<string, unknown>>, options?: RequestOptions) => Promise<GetPromptResult>;
+
+  /** List available resource templates on the server: the first page, or every page with `all`. */
+  listResourceTemplates: (options?: ListOptions) => Promise<ReadonlyArray<ResourceTemplate>>;
+
+  /** Fetch one page of resource templates. */
+  listResourceTemplatesPage: (options?: PageOptions) => Promise<Page<ResourceTemplate>>;
 
-  /** List available resource templates on the server. */
-  listResourceTemplates: () => Promise<ReadonlyArray<ResourceTemplate>>;
+  /** Iterate over every resource template, fetching pages as needed. */
+  iterateResourceTemplates: (options?: PaginationOptions) => AsyncIterable<ResourceTemplate>;
 
   /** Complete an argument for a prompt. */
   complete: (params: CompleteRequest['params']) => Promise<CompleteResult>;
@@ -205,6 +590,36 @@ export type ClientAPI = Readonly<{
   /** Send a ping request to check connectivity. */
   ping: () => Promise<void>;
 
+  /** Get the name and version the server reported during initialization. */
+  getServerInfo: () => Implementation | undefined;
+
+  /** Get the protocol revision negotiated with the server, e.g. '2025-06-18'. */
+  getProtocolVersion: () => string;
+
+  /** Get the usage instructions the server provided during initialization, if any. */
+  getInstructions: () => string | undefined;
+
+  /** Get the most recent stderr lines of a stdio server, oldest first (empty for other transports). */
+  getStderr: () => ReadonlyArray<string>;
+
+  /** Get the number of messages waiting to be written to a stdio server's stdin (0 for other transports). */
+  getQueueDepth: () => number;
+
+  /**
+   * Listen for changes to a resource. Only present when the server reports
+   * `capabilities.resources.subscribe`. Subscriptions survive reconnects.
+   */
+  subscribeResource?: (uri: string, listener: ResourceUpdatedListener) => Promise<ResourceUnsubscribe>;
+
+  /** Drop cached list results, for one catalog or all of them, so the next list call asks the server. */
+  invalidateCatalog: (catalog?: CatalogKind) => void;
+
+  /** Get the roots offered to the server, or undefined if roots are not enabled for it. */
+  getRoots: () => ReadonlyArray<Root> | undefined;
+
+  /** Replace the roots offered to the server and notify it that they changed. */
+  setRoots: (roots: ReadonlyArray<Root>) => Promise<void>;
+
   /** Get whether the disconnection is intentional for error reporting. */
   getIntentionalDisconnect: () => boolean;
 
@@ -219,7 +634,7 @@ export type ManagerStateInternals = {
   updateState: (newState: ManagerStateType) => void;
   // Add direct access to ManagerStateType properties for backwards compatibility
   config: ManagerConfig;
-  options: Readonly<Required<ManagerOptions>>;
+  options: ResolvedManagerOptions;
   activeClients: Readonly<Record<string, ClientState>>;
 };
 
@@ -236,6 +651,9 @@ export type ManagerAPI = Readonly<{
   /** Disconnects all managed clients and terminates their server processes/connections. */
   disconnectAll: () => Promise<void>;
 
+  /** Replaces the roots of every client with roots enabled and uses them for later connections. */
+  setRoots: (roots: ReadonlyArray<Root>) => Promise<void>;
+
   /** Returns the current immutable state of the manager (for debugging or advanced use). */
   _getState: () => ManagerStateInternals; // Updated return type
 }>;
@@ -248,6 +666,7 @@ export type RequestResolver = {
   reject: (reason?: unknown) => void;
   timeoutTimer: number | NodeJS.Timeout | null; // Support both number and Timeout object
   onProgress?: (progress: Progress) => void; // Optional progress callback
+  method?: string; // The request's method, reported in errors about it
 };
 
 // Using a mutable Map here is a pragmatic choice for performance and simplicity
@@ -255,16 +674,24 @@ export type RequestResolver = {
 export type PendingRequests = Map<JsonRpcId, RequestResolver>;
 
 export type Transport = Readonly<{
-  send: (message: JsonRpcRequest | JsonRpcNotification) => Promise<void>;
+  send: (message: JsonRpcMessage) => Promise<void>;
   close: () => Promise<void>;
   isClosed: () => boolean;
   // Internal details needed for cleanup
   _details: Readonly<{
-    type: 'stdio' | 'sse';
+    type: TransportConfig['type'];
     process?: Subprocess;
     // Use a more generic reference that works with both Bun's EventSource and DOM EventSource
     sseSource?: unknown;
     abortController?: AbortController;
+    sessionId?: string; // Session assigned by a Streamable HTTP server
+    endpointUrl?: string; // POST endpoint announced by an SSE server's `endpoint` event
+    protocol?: string; // Subprotocol selected by a WebSocket server
+    closeCode?: number; // WebSocket close code, once closed
+    closeReason?: string; // WebSocket close reason, once closed
+    address?: string; // Unix socket path or host:port of a socket server
+    queueDepth?: number; // Messages waiting to be written to a stdio server's stdin
+    stderr?: ReadonlyArray<string>; // Most recent stderr lines of a stdio server, oldest first
   }>;
 }>;
 
@@ -279,10 +706,18 @@ export type ClientState = Readonly<{
 
 export type ManagerStateType = Readonly<{
   config: ManagerConfig;
-  options: Readonly<Required<ManagerOptions>>; // Options with defaults applied
+  options: ResolvedManagerOptions; // Options with defaults applied
   activeClients: Readonly<Record<string, ClientState>>;
 }>;
 
+// A single event parsed from a `text/event-stream` body
+export type SseEvent = Readonly<{
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}>;
+
 /**
  * This file contains type definitions to improve compatibility between Bun and standard web APIs
  */
@@ -296,6 +731,17 @@ export interface EventSourceCompatible {
   onerror?: ((event: any) => void) | null;
 }
 
+// The subset of Bun's WebSocket client used by the websocket transport
+export interface WebSocketCompatible {
+  readonly readyState: number;
+  readonly protocol: string;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  // Bun-specific keepalive support
+  ping?: () => void;
+  addEventListener(type: string, listener: (event: any) => void): void;
+}
+
 // A reader type that's compatible with both Bun and standard web streams
 export interface ReaderCompatible<T> {
   read(): Promise<{ done: boolean; value: T | undefined }>;
@@ -303,4 +749,11 @@ export interface ReaderCompatible<T> {
   releaseLock(): void;
   // Optional Bun-specific method
   readMany?: () => any;
-} 
\ No newline at end of file
+} 
+
+// The subset of Bun's FileSink (a subprocess stdin pipe) used for writing
+export interface SinkCompatible {
+  write(chunk: Uint8Array): number | Promise<number>;
+  // Resolves asynchronously while the pipe is backed up
+  flush(): number | Promise<number>;
+}
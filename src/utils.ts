@@ -1,6 +1,7 @@
-import { JSONRPC_VERSION, DEFAULT_REQUEST_TIMEOUT_MS, PROCESS_TERMINATION_TIMEOUT_MS, API_METHODS, NOTIFICATION_METHODS } from "./constants";
-import { JsonRpcMessage, JsonRpcId, JsonRpcRequest, JsonRpcNotification, JsonRpcResponse, ManagerStateType, TransportConfig, StdioTransportConfig, SseTransportConfig, Transport, PendingRequests, NotificationHandler, ClientState, Tool, Resource, Prompt, ClientAPI, ManagerConfig, ManagerOptions, ManagerAPI, ManagerStateInternals, Progress, ReadResourceResult, GetPromptResult, ResourceTemplate, CompleteRequest, CompleteResult, LoggingLevel, RequestResolver } from "./types";
-import { EventSourceCompatible, ReaderCompatible } from "./types";
+import { JSONRPC_VERSION, DEFAULT_REQUEST_TIMEOUT_MS, MCP_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS, PROCESS_TERMINATION_TIMEOUT_MS, SSE_CONNECTION_TIMEOUT_MS, DEFAULT_SSE_RECONNECT_ATTEMPTS, DEFAULT_SSE_RECONNECT_BASE_DELAY_MS, DEFAULT_SSE_RECONNECT_JITTER_MS, SESSION_TERMINATION_TIMEOUT_MS, GET_STREAM_REOPEN_DELAY_MS, WEBSOCKET_CONNECTION_TIMEOUT_MS, DEFAULT_MAX_MESSAGE_SIZE_BYTES, OVERSIZED_MESSAGE_HEAD_BYTES, DEFAULT_MAX_QUEUED_MESSAGES, DEFAULT_STDERR_BUFFER_LINES, DEFAULT_MAX_LIST_PAGES, SOCKET_CONNECTION_TIMEOUT_MS, DEFAULT_WEBSOCKET_PING_INTERVAL_MS, API_METHODS, NOTIFICATION_METHODS, ERROR_CODES, HTTP_HEADERS } from "./constants";
+import { JsonRpcMessage, JsonRpcId, JsonRpcRequest, JsonRpcNotification, JsonRpcResponse, ManagerStateType, TransportConfig, StdioTransportConfig, SseTransportConfig, HttpTransportConfig, WebSocketTransportConfig, SocketTransportConfig, MemoryTransportConfig, MemoryChannel, MessageCodec, MessageFraming, SseEvent, Transport, PendingRequests, NotificationHandler, ServerRequestHandler, SamplingHandler, CreateMessageRequest, Root, RequestOptions, CallToolOptions, Page, PageOptions, PaginationOptions, ListOptions, ElicitationHandler, ElicitationSchema, ElicitationPropertySchema, ElicitRequest, ResourceUpdatedEvent, ResourceUpdatedListener, ResourceUnsubscribe, CatalogKind, CapabilityPath, CallToolResult, TextContent, ImageContent, ClientState, McpError, McpErrorKind, McpErrorOrigin, McpAbortError, Tool, Resource, Prompt, ClientAPI, Implementation, InitializeResult, ManagerConfig, ManagerOptions, ManagerAPI, ManagerStateInternals, Progress, ReadResourceResult, GetPromptResult, ResourceTemplate, CompleteRequest, CompleteResult, LoggingLevel, RequestResolver } from "./types";
+import { ReaderCompatible, WebSocketCompatible, SinkCompatible } from "./types";
+import type { Socket, SocketHandler } from "bun";
 
   
 let idCounter = 0;
@@ -9,14 +10,26 @@ export function generateId(): number {
   return idCounter++;
 }
 
+// Basic validation to check if a value looks like a JSON-RPC message
+export function isJsonRpcMessage(value: unknown): value is JsonRpcMessage {
+  return typeof value === 'object' && value !== null && 
+    (value as { jsonrpc?: unknown }).jsonrpc === JSONRPC_VERSION;
+}
+
 export function safeJsonParse(text: string): JsonRpcMessage | undefined {
   try {
     const parsed = JSON.parse(text);
-    // Basic validation to check if it looks like a JSON-RPC message
-    if (typeof parsed === 'object' && parsed !== null && parsed.jsonrpc === JSONRPC_VERSION) {
-      return parsed as JsonRpcMessage;
-    }
+    return isJsonRpcMessage(parsed) ? parsed : undefined;
+  } catch (e) {
     return undefined;
+  }
+}
+
+// Parse a JSON body that may hold a single message or a JSON-RPC batch
+export function parseJsonRpcPayload(text: string): ReadonlyArray<JsonRpcMessage> | undefined {
+  try {
+    const parsed = JSON.parse(text);
+    return (Array.isArray(parsed) ? parsed : [parsed]).filter(isJsonRpcMessage);
   } catch (e) {
     return undefined;
   }
@@ -56,6 +69,27 @@ export function createJsonRpcErrorResponse(
     };
 }
 
+// Error responses the client makes up for its own pending requests, told apart from server answers by identity.
+// Their code never reaches callers, who get a typed error of the recorded kind without one.
+const clientErrorResponses = new WeakMap<JsonRpcResponse, McpErrorKind>();
+
+const createClientErrorResponse = (id: JsonRpcId, message: string, data?: unknown, kind: McpErrorKind = 'protocol'): JsonRpcResponse => {
+    const response = createJsonRpcErrorResponse(id, ERROR_CODES.INTERNAL_ERROR, message, data);
+    clientErrorResponses.set(response, kind);
+    return response;
+};
+
+export function createJsonRpcResponse(
+    id: JsonRpcId,
+    result: unknown
+): JsonRpcResponse {
+    return {
+        jsonrpc: JSONRPC_VERSION,
+        id,
+        result,
+    };
+}
+
 export function createMcpError(
     message: string, 
     code?: number, 
@@ -88,11 +122,45 @@ export function createMcpError(
     return customError;
 }
 
+// Errors callers can tell apart by `kind` instead of by message; origin fields left undefined are omitted
+export function createTypedError<K extends McpErrorKind>(
+    kind: K,
+    message: string,
+    origin: McpErrorOrigin = {},
+    code?: number,
+    data?: unknown
+): McpError<K> {
+    return Object.assign(createMcpError(message, code, data), { kind }, definedFields(origin)) as McpError<K>;
+}
+
+const definedFields = <T extends object>(fields: T): Partial<T> =>
+    Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+// Narrows a caught value to an error raised by this client, optionally of one kind
+export const isMcpError = <K extends McpErrorKind = McpErrorKind>(error: unknown, kind?: K): error is McpError<K> =>
+    error instanceof Error && 'kind' in error && (kind === undefined || error.kind === kind);
+
+// Attributes a failed send to the message: its method and, for requests, its id
+export const messageOrigin = (serverName: string, message: JsonRpcMessage): McpErrorOrigin => ({
+    serverName,
+    method: 'method' in message ? message.method : undefined,
+    requestId: 'id' in message ? message.id : undefined,
+});
+
+// Rejection for requests aborted through their AbortSignal; the reason is kept as data
+export function createAbortError(reason: unknown, origin: McpErrorOrigin & { method: string }): McpAbortError {
+    const detail = reason instanceof Error ? reason.message : reason !== undefined ? String(reason) : 'aborted';
+    const abortError = createTypedError('abort', `Request ${origin.method} was aborted: ${detail}`, origin, ERROR_CODES.REQUEST_CANCELLED, { reason });
+    abortError.name = 'AbortError';
+    return abortError;
+}
+
 export function promiseWithTimeout<T>(
   promise: Promise<T>,
   ms: number,
   cleanup?: () => void,
-  timeoutMessage?: string
+  timeoutMessage?: string,
+  origin?: McpErrorOrigin
 ): Promise<T> {
   // Create a local variable to track if a timeout occurred
   let didTimeout = false;
@@ -103,7 +171,7 @@ export function promiseWithTimeout<T>(
       didTimeout = true;
       // Execute cleanup if provided
       if (cleanup) cleanup();
-      reject(createMcpError(timeoutMessage || `Promise timed out after ${ms}ms`, -32000));
+      reject(createTypedError('timeout', timeoutMessage || `Promise timed out after ${ms}ms`, origin));
     }, ms);
     
     // Attach cleanup to the promise
@@ -130,49 +198,582 @@ export function promiseWithTimeout<T>(
   });
 }
 
+// Newline-delimited JSON: one message per line
+export const ndjsonCodec: MessageCodec = Object.freeze({
+    decode: (buffer: string) => {
+        const frames: string[] = [];
+        let start = 0;
+        let newlineIndex;
+
+        while ((newlineIndex = buffer.indexOf('\n', start)) !== -1) {
+            frames.push(buffer.substring(start, newlineIndex));
+            start = newlineIndex + 1;
+        }
+        return { frames, rest: buffer.substring(start) };
+    },
+    encode: (message: JsonRpcMessage) => JSON.stringify(message) + '\n',
+});
+
+const utf8Length = (codePoint: number): number =>
+    codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+// Returns the string index where `byteLength` UTF-8 bytes starting at `start` end,
+// or undefined if the text does not contain that many bytes yet
+const indexAfterUtf8Bytes = (text: string, start: number, byteLength: number): number | undefined => {
+    let bytes = 0;
+    let index = start;
+    while (bytes < byteLength) {
+        if (index >= text.length) return undefined;
+        const codePoint = text.codePointAt(index)!;
+        bytes += utf8Length(codePoint);
+        index += codePoint > 0xffff ? 2 : 1;
+    }
+    return index;
+};
+
+const parseContentLength = (header: string): number | undefined => {
+    const match = /^content-length:\s*(\d+)\s*$/im.exec(header);
+    return match ? Number(match[1]) : undefined;
+};
+
+// LSP-style framing: `Content-Length: <bytes>` header, a blank line, then the body
+export const contentLengthCodec: MessageCodec = Object.freeze({
+    decode: (buffer: string) => {
+        const frames: string[] = [];
+        let start = 0;
+
+        while (true) {
+            const headerEnd = buffer.indexOf('\r\n\r\n', start);
+            if (headerEnd === -1) break;
+
+            const length = parseContentLength(buffer.substring(start, headerEnd));
+            if (length === undefined) {
+                // Not a frame header; hand it on so it's reported like any non-JSON output
+                frames.push(buffer.substring(start, headerEnd));
+                start = headerEnd + 4;
+                continue;
+            }
+
+            const bodyEnd = indexAfterUtf8Bytes(buffer, headerEnd + 4, length);
+            if (bodyEnd === undefined) break;
+
+            frames.push(buffer.substring(headerEnd + 4, bodyEnd));
+            start = bodyEnd;
+        }
+        return { frames, rest: buffer.substring(start) };
+    },
+    encode: (message: JsonRpcMessage) => {
+        const body = JSON.stringify(message);
+        return `Content-Length: ${new TextEncoder().encode(body).length}\r\n\r\n${body}`;
+    },
+});
+
+export const resolveMessageCodec = (framing: MessageFraming = 'ndjson'): MessageCodec =>
+    framing === 'ndjson' ? ndjsonCodec
+    : framing === 'content-length' ? contentLengthCodec
+    : framing;
+
+type StdioReadOptions = {
+    ignoreNonJsonLines?: boolean; // Ignore non-JSON lines instead of reporting errors
+    debugMode?: boolean; // Log all raw input/output
+    codec?: MessageCodec; // Framing of the stream (default: newline-delimited JSON)
+};
+
+const handleStdioFrame = (
+    line: string,
+    onMessage: (message: JsonRpcMessage) => void,
+    onError: (error: Error) => void,
+    options?: StdioReadOptions
+): void => {
+    if (line.trim().length === 0) return;
+
+    // Log raw input if in debug mode
+    if (options?.debugMode) {
+        console.log(`[MCP RAW INPUT] ${line}`);
+    }
+
+    const message = safeJsonParse(line);
+    if (message) {
+        try {
+            onMessage(message);
+        } catch (handlerError) {
+            onError(createTypedError('protocol', `Error processing message: ${handlerError instanceof Error ? handlerError.message : String(handlerError)}`));
+        }
+    } else {
+        // Default to ignoring non-JSON lines in tests to reduce noise
+        // Only report as error if explicitly set to not ignore
+        if (options?.ignoreNonJsonLines === false) {
+            onError(createTypedError('protocol', `Received invalid JSON line: ${line.substring(0, 100)}...`));
+        } else if (options?.debugMode) {
+            console.log(`[MCP IGNORED NON-JSON] ${line}`);
+        }
+    }
+};
+
 export function processStdioBuffer(
     chunk: string,
     existingBuffer: string,
     onMessage: (message: JsonRpcMessage) => void,
     onError: (error: Error) => void,
+    options?: StdioReadOptions
+): string {
+    const { frames, rest } = (options?.codec ?? ndjsonCodec).decode(existingBuffer + chunk);
+    frames.forEach(line => handleStdioFrame(line, onMessage, onError, options));
+    return rest; // Return the remaining part of the buffer
+}
+
+// Collects byte slices and joins them only once the whole frame has arrived
+const createByteAccumulator = () => {
+    let parts: Uint8Array[] = [];
+    let size = 0;
+
+    return {
+        push: (bytes: Uint8Array) => {
+            parts.push(bytes);
+            size += bytes.length;
+        },
+        size: () => size,
+        take: (): Uint8Array => {
+            const joined = parts.length === 1 ? parts[0] : new Uint8Array(size);
+            if (parts.length > 1) {
+                let offset = 0;
+                parts.forEach(part => {
+                    joined.set(part, offset);
+                    offset += part.length;
+                });
+            }
+            parts = [];
+            size = 0;
+            return joined;
+        }
+    };
+};
+
+// Splits a byte stream on '\n' without re-copying buffered data, so total work stays
+// linear in the stream size. Lines longer than maxLineBytes are reported once with their
+// first bytes, and the rest of them is discarded up to the next newline.
+export const createLineSplitter = (
+    onLine: (line: Uint8Array) => void,
     options?: {
-        ignoreNonJsonLines?: boolean; // Ignore non-JSON lines instead of reporting errors
-        debugMode?: boolean; // Log all raw input/output
+        maxLineBytes?: number;
+        onOversizedLine?: (head: Uint8Array) => void;
     }
-): string {
-    let buffer = existingBuffer + chunk;
-    let newlineIndex;
+): ((chunk: Uint8Array) => void) => {
+    const pending = createByteAccumulator();
+    let discarding = false;
 
-    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
-        const line = buffer.substring(0, newlineIndex);
-        buffer = buffer.substring(newlineIndex + 1);
+    return (chunk: Uint8Array) => {
+        let start = 0;
+        while (start < chunk.length) {
+            const newlineIndex = chunk.indexOf(0x0a, start);
+            const end = newlineIndex === -1 ? chunk.length : newlineIndex;
 
-        if (line.trim().length > 0) {
-            // Log raw input if in debug mode
-            if (options?.debugMode) {
-                console.log(`[MCP RAW INPUT] ${line}`);
+            if (!discarding && end > start) {
+                // Copy an unterminated tail, since the reader may reuse the chunk's memory
+                pending.push(newlineIndex === -1 ? chunk.slice(start, end) : chunk.subarray(start, end));
+
+                if (options?.maxLineBytes !== undefined && pending.size() > options.maxLineBytes) {
+                    options.onOversizedLine?.(pending.take().subarray(0, OVERSIZED_MESSAGE_HEAD_BYTES));
+                    discarding = true;
+                }
             }
 
-            const message = safeJsonParse(line);
-            if (message) {
-                try {
-                    onMessage(message);
-                } catch (handlerError) {
-                    onError(createMcpError(`Error processing message: ${handlerError instanceof Error ? handlerError.message : String(handlerError)}`));
+            if (newlineIndex === -1) break;
+
+            if (discarding) {
+                discarding = false;
+            } else {
+                onLine(pending.take());
+            }
+            start = newlineIndex + 1;
+        }
+    };
+};
+
+const HEADER_TERMINATOR = [0x0d, 0x0a, 0x0d, 0x0a]; // \r\n\r\n
+
+// Splits a `Content-Length:` framed byte stream. Each header is parsed once and its body
+// collected as it arrives, so total work stays linear in the stream size. A body larger
+// than maxFrameBytes is reported once with its first bytes and skipped without buffering;
+// so is a header that grows past maxFrameBytes without ending.
+export const createContentLengthSplitter = (
+    onFrame: (frame: Uint8Array) => void,
+    options?: {
+        maxFrameBytes?: number;
+        onOversizedFrame?: (head: Uint8Array) => void;
+    }
+): ((chunk: Uint8Array) => void) => {
+    const maxFrameBytes = options?.maxFrameBytes ?? Infinity;
+    const pending = createByteAccumulator();
+    const headerDecoder = new TextDecoder();
+    let bodyRemaining: number | undefined; // Set while a body is being read
+    let oversized = false; // The body being read is only the head of an oversized one
+    let discardRemaining = 0; // Bytes of an oversized body still to skip
+    let discardingHeader = false;
+    let terminatorMatched = 0;
+
+    const startBody = (header: Uint8Array) => {
+        const length = parseContentLength(headerDecoder.decode(header));
+        if (length === undefined) {
+            // Not a frame header; hand it on so it's reported like any non-JSON output
+            onFrame(header);
+        } else if (length > maxFrameBytes) {
+            oversized = true;
+            bodyRemaining = Math.min(length, OVERSIZED_MESSAGE_HEAD_BYTES);
+            discardRemaining = length - bodyRemaining;
+        } else if (length === 0) {
+            onFrame(new Uint8Array(0));
+        } else {
+            bodyRemaining = length;
+        }
+    };
+
+    const finishBody = () => {
+        const body = pending.take();
+        bodyRemaining = undefined;
+        if (oversized) {
+            oversized = false;
+            options?.onOversizedFrame?.(body);
+        } else {
+            onFrame(body);
+        }
+    };
+
+    return (chunk: Uint8Array) => {
+        let start = 0;
+        while (start < chunk.length) {
+            if (bodyRemaining !== undefined) {
+                const end = Math.min(chunk.length, start + bodyRemaining);
+                // Copy, since the reader may reuse the chunk's memory
+                pending.push(chunk.slice(start, end));
+                bodyRemaining -= end - start;
+                start = end;
+                if (bodyRemaining === 0) finishBody();
+                continue;
+            }
+
+            if (discardRemaining > 0) {
+                const skipped = Math.min(chunk.length - start, discardRemaining);
+                discardRemaining -= skipped;
+                start += skipped;
+                continue;
+            }
+
+            // Scan for the end of the header, which may be split across chunks
+            let end = start;
+            while (end < chunk.length && terminatorMatched < HEADER_TERMINATOR.length) {
+                const byte = chunk[end++];
+                terminatorMatched = byte === HEADER_TERMINATOR[terminatorMatched] ? terminatorMatched + 1
+                    : byte === HEADER_TERMINATOR[0] ? 1
+                    : 0;
+            }
+            if (!discardingHeader) pending.push(chunk.slice(start, end));
+            start = end;
+
+            if (terminatorMatched === HEADER_TERMINATOR.length) {
+                terminatorMatched = 0;
+                if (discardingHeader) {
+                    discardingHeader = false;
+                } else {
+                    const header = pending.take();
+                    startBody(header.subarray(0, header.length - HEADER_TERMINATOR.length));
                 }
+            } else if (!discardingHeader && pending.size() > maxFrameBytes) {
+                options?.onOversizedFrame?.(pending.take().subarray(0, OVERSIZED_MESSAGE_HEAD_BYTES));
+                discardingHeader = true;
+            }
+        }
+    };
+};
+
+// Best-effort look at a dropped message's first bytes: its top-level `id`, and whether it is
+// a request from the server rather than a response. Keys after the first nested value are not seen.
+const inspectMessageHead = (head: string): Readonly<{ id?: JsonRpcId; isRequest: boolean }> => {
+    const topLevel = /^\s*\{[^{[]*/.exec(head)?.[0] ?? '';
+    const isRequest = /[{,]\s*"(?:method|params)"\s*:/.test(topLevel);
+    const match = /[{,]\s*"id"\s*:\s*("(?:[^"\\]|\\.)*"|-?\d+)/.exec(topLevel);
+    if (!match) return { isRequest };
+    try {
+        return { id: JSON.parse(match[1]) as JsonRpcId, isRequest };
+    } catch {
+        return { isRequest };
+    }
+};
+
+// Turns raw stdout bytes into messages. Newline-delimited JSON and `Content-Length:` frames
+// are split at the byte level so oversized messages can be dropped; other codecs get a
+// single streaming decoder, and their unframed text is dropped once it exceeds maxMessageSize.
+export const createStdioReader = (
+    serverName: string,
+    onMessage: (message: JsonRpcMessage) => void,
+    onError: (error: Error) => void,
+    options?: StdioReadOptions & {
+        maxMessageSize?: number;
+        reply?: (response: JsonRpcResponse) => void; // Answers server requests that were too large to read
+    }
+): ((chunk: Uint8Array) => void) => {
+    const codec = options?.codec ?? ndjsonCodec;
+    const decoder = new TextDecoder();
+    const maxMessageSize = options?.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE_BYTES;
+    const errorMessage = `Message from ${serverName} exceeds the maximum size of ${maxMessageSize} bytes`;
+
+    const dropOversized = (head: Uint8Array) => {
+        const { id, isRequest } = inspectMessageHead(decoder.decode(head));
+
+        if (id === undefined) {
+            log(LOG_LEVELS.WARN, `${errorMessage}; dropped it`);
+        } else if (isRequest) {
+            // The server is waiting for an answer to a request we cannot read
+            log(LOG_LEVELS.WARN, `${errorMessage}; rejected request ${id}`);
+            options?.reply?.(createJsonRpcErrorResponse(
+                id, ERROR_CODES.INVALID_REQUEST, `Request exceeds the client's maximum message size of ${maxMessageSize} bytes`, { maxMessageSize }
+            ));
+        } else {
+            // Answer the affected request with an error; everything else keeps flowing
+            onMessage(createClientErrorResponse(id, errorMessage, { maxMessageSize }));
+        }
+    };
+    const handleFrame = (frame: Uint8Array) => handleStdioFrame(decoder.decode(frame), onMessage, onError, options);
+
+    if (codec === ndjsonCodec) {
+        return createLineSplitter(handleFrame, { maxLineBytes: maxMessageSize, onOversizedLine: dropOversized });
+    }
+    if (codec === contentLengthCodec) {
+        return createContentLengthSplitter(handleFrame, { maxFrameBytes: maxMessageSize, onOversizedFrame: dropOversized });
+    }
+
+    const streamDecoder = new TextDecoder();
+    let buffer = '';
+    return (chunk: Uint8Array) => {
+        buffer = processStdioBuffer(streamDecoder.decode(chunk, { stream: true }), buffer, onMessage, onError, options);
+        // Every character takes at least one byte, so this never drops a message within the limit
+        if (buffer.length > maxMessageSize) {
+            log(LOG_LEVELS.WARN, `${errorMessage}; dropped it`);
+            buffer = '';
+        }
+    };
+};
+
+// Writes messages to a sink one at a time, in order, waiting for each flush to
+// complete so a backed-up pipe holds further messages here instead of in memory.
+// At most maxQueuedMessages may wait; beyond that, enqueue rejects immediately.
+export const createWriteQueue = (
+    serverName: string,
+    sink: SinkCompatible,
+    maxQueuedMessages: number = DEFAULT_MAX_QUEUED_MESSAGES
+) => {
+    type QueuedWrite = { bytes: Uint8Array; resolve: () => void; reject: (error: unknown) => void };
+    const queue: QueuedWrite[] = [];
+    let draining = false;
+
+    const drain = async () => {
+        draining = true;
+        while (queue.length > 0) {
+            const item = queue[0];
+            try {
+                await sink.write(item.bytes);
+                await sink.flush();
+                queue.shift();
+                item.resolve();
+            } catch (err) {
+                // The pipe is unusable, so nothing behind this message can be written either
+                queue.splice(0).forEach(pending => pending.reject(err));
+            }
+        }
+        draining = false;
+    };
+
+    return {
+        enqueue: (bytes: Uint8Array, origin: McpErrorOrigin = { serverName }): Promise<void> => {
+            if (queue.length >= maxQueuedMessages) {
+                return Promise.reject(createTypedError(
+                    'queueFull',
+                    `Write queue for ${serverName} is full (${maxQueuedMessages} messages waiting)`,
+                    origin,
+                    undefined,
+                    { maxQueuedMessages }
+                ));
+            }
+
+            const written = new Promise<void>((resolve, reject) => queue.push({ bytes, resolve, reject }));
+            if (!draining) drain();
+            return written;
+        },
+        depth: () => queue.length
+    };
+};
+
+// Keeps the most recent `capacity` items, dropping the oldest
+export const createRingBuffer = <T>(capacity: number) => {
+    const items: T[] = [];
+    let next = 0; // Slot the next item goes into once the buffer is full
+
+    return {
+        push: (item: T) => {
+            if (capacity <= 0) return;
+            if (items.length < capacity) {
+                items.push(item);
             } else {
-                // Default to ignoring non-JSON lines in tests to reduce noise
-                // Only report as error if explicitly set to not ignore
-                if (options?.ignoreNonJsonLines === false) {
-                    onError(createMcpError(`Received invalid JSON line: ${line.substring(0, 100)}...`));
-                } else if (options?.debugMode) {
-                    console.log(`[MCP IGNORED NON-JSON] ${line}`);
+                items[next] = item;
+            }
+            next = (next + 1) % capacity;
+        },
+        toArray: (): ReadonlyArray<T> =>
+            items.length < capacity ? [...items] : [...items.slice(next), ...items.slice(0, next)]
+    };
+};
+
+type SubscriptionRequester = (method: string, params: { uri: string }) => Promise<unknown>;
+
+// Resource listeners of one server, kept across reconnects. A listener registered twice
+// for a URI is called once; the server is subscribed while a URI has any listener.
+export const createResourceSubscriptions = (serverName: string) => {
+    const listenersByUri = new Map<string, Set<ResourceUpdatedListener>>();
+    let request: SubscriptionRequester | null = null; // The connected client's, if any
+
+    const unsubscribe = async (uri: string, listener: ResourceUpdatedListener): Promise<void> => {
+        const listeners = listenersByUri.get(uri);
+        if (!listeners?.delete(listener) || listeners.size > 0) return;
+        listenersByUri.delete(uri);
+        await request?.(API_METHODS.UNSUBSCRIBE_RESOURCE, { uri });
+    };
+
+    return {
+        subscribe: async (uri: string, listener: ResourceUpdatedListener): Promise<ResourceUnsubscribe> => {
+            const listeners = listenersByUri.get(uri) ?? new Set<ResourceUpdatedListener>();
+            const first = listeners.size === 0;
+            listeners.add(listener);
+            listenersByUri.set(uri, listeners);
+
+            if (first && request) {
+                try {
+                    await request(API_METHODS.SUBSCRIBE_RESOURCE, { uri });
+                } catch (err) {
+                    listeners.delete(listener);
+                    if (listeners.size === 0) listenersByUri.delete(uri);
+                    throw err;
                 }
             }
+            return () => unsubscribe(uri, listener);
+        },
+        // Called once a client is connected; subscribes again to everything listened to before
+        attach: async (requester: SubscriptionRequester): Promise<void> => {
+            request = requester;
+            await Promise.all([...listenersByUri.keys()].map(uri =>
+                requester(API_METHODS.SUBSCRIBE_RESOURCE, { uri }).catch(err =>
+                    log(LOG_LEVELS.WARN, `Failed to restore subscription to ${uri} on ${serverName}: ${String(err)}`)
+                )
+            ));
+        },
+        detach: (requester: SubscriptionRequester) => {
+            if (request === requester) request = null;
+        },
+        uris: (): ReadonlyArray<string> => [...listenersByUri.keys()],
+        notify: (event: ResourceUpdatedEvent) => {
+            listenersByUri.get(event.uri)?.forEach(listener => {
+                try {
+                    listener(event);
+                } catch (err) {
+                    log(LOG_LEVELS.WARN, `Resource update listener for ${event.uri} failed: ${String(err)}`);
+                }
+            });
+        }
+    };
+};
+
+export type ResourceSubscriptions = ReturnType<typeof createResourceSubscriptions>;
+
+// Attaches a stdio server's recent stderr to an error, so a crash explains itself
+export const withServerOutput = (
+    error: unknown,
+    serverName: string,
+    config: TransportConfig,
+    transport: Transport | null
+): Error => {
+    const formattedError = (error instanceof Error ? error : new Error(String(error))) as Error & {
+        code?: number;
+        data?: unknown;
+        context?: Record<string, unknown>;
+    };
+    const stderr = transport?._details.stderr;
+
+    if (config.type !== 'stdio' || !stderr || stderr.length === 0 || formattedError.context?.rawOutput) {
+        return formattedError;
+    }
+
+    // Copying own properties keeps the kind and origin of typed errors
+    return Object.assign(createMcpError(formattedError.message), formattedError, {
+        context: {
+            ...formattedError.context,
+            serverName,
+            command: config.command,
+            args: config.args,
+            rawOutput: stderr.join('\n')
         }
+    });
+};
+
+// Reads a `text/event-stream` body and emits each complete event.
+// Resolves when the stream ends; rejects if reading fails (including aborts).
+export const readSseStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let eventId: string | undefined;
+  let retry: number | undefined;
+
+  const processLine = (line: string) => {
+    // A blank line dispatches the accumulated event
+    if (line === '') {
+      if (dataLines.length > 0) {
+        onEvent({ event: eventType || 'message', data: dataLines.join('\n'), id: eventId, retry });
+      }
+      eventType = '';
+      dataLines = [];
+      eventId = undefined;
+      retry = undefined;
+      return;
     }
-    return buffer; // Return the remaining part of the buffer
-}
+    if (line.startsWith(':')) return; // Comment line
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.substring(0, colonIndex);
+    const rawValue = colonIndex === -1 ? '' : line.substring(colonIndex + 1);
+    const value = rawValue.startsWith(' ') ? rawValue.substring(1) : rawValue;
+
+    if (field === 'event') eventType = value;
+    else if (field === 'data') dataLines.push(value);
+    else if (field === 'id' && !value.includes('\0')) eventId = value;
+    else if (field === 'retry' && /^\d+$/.test(value)) retry = parseInt(value, 10);
+  };
+
+  const processBuffer = (final: boolean) => {
+    // Hold back a trailing CR in case its LF arrives in the next chunk
+    const end = !final && buffer.endsWith('\r') ? buffer.length - 1 : buffer.length;
+    const lines = buffer.substring(0, end).split(/\r\n|\r|\n/);
+    const rest = final ? '' : (lines.pop() ?? '');
+    lines.forEach(processLine);
+    buffer = rest + buffer.substring(end);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      processBuffer(false);
+    }
+    buffer += decoder.decode();
+    if (buffer.length > 0) processBuffer(true);
+  } finally {
+    reader.releaseLock();
+  }
+};
 
 // Logging utilities
 export const log = (level: number, message: string, data?: unknown): void => {
@@ -235,48 +836,829 @@ export function copyActiveClients<T>(source: Record<string, T>): Record<string,
 export type ClientStateInternals = {
   intentionalDisconnect: boolean;
   setIntentionalDisconnect: (value: boolean) => void;
+  sendRequest: <TResponse = unknown>(method: string, params?: unknown, options?: RequestOptions) => Promise<TResponse>;
+  invalidateCatalog: (catalog?: CatalogKind) => void;
 };
 
-export const createTransport = async (
+const createHttpTransport = (
   serverName: string,
-  config: TransportConfig,
+  config: HttpTransportConfig,
   messageHandler: (message: JsonRpcMessage) => void,
-  errorHandler: (error: Error) => void,
-  exitHandler?: (code: number | null) => void
-): Promise<Transport> => {
-  let transport: Transport;
-  
-  // Add retry logic for transport creation
-  const maxRetries = config.type === 'stdio' && 
-                   config.options?.initializationRetries ? 
-                   config.options.initializationRetries : 1;
-  const retryDelayMs = config.type === 'stdio' && 
-                     config.options?.initializationRetryDelay ? 
-                     config.options.initializationRetryDelay : 500;
-  
-  let lastError: Error | null = null;
-  
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  errorHandler: (error: Error) => void
+): Transport => {
+  const abortController = new AbortController();
+  let sessionId: string | undefined = config.options?.sessionId;
+  let initializeRequestId: JsonRpcId | undefined;
+  let protocolVersion: string | undefined;
+  let getStreamOpened = false;
+  let getStreamReopenTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const buildHeaders = (accept: string): Record<string, string> => ({
+    ...config.headers,
+    Accept: accept,
+    ...(sessionId ? { [HTTP_HEADERS.SESSION_ID]: sessionId } : {}),
+    ...(protocolVersion ? { [HTTP_HEADERS.PROTOCOL_VERSION]: protocolVersion } : {}),
+  });
+
+  // Every request after initialize must name the negotiated revision
+  const dispatch = (message: JsonRpcMessage): void => {
+    if (initializeRequestId !== undefined && 'id' in message && message.id === initializeRequestId && 'result' in message) {
+      protocolVersion = (message.result as InitializeResult | undefined)?.protocolVersion;
+    }
+    messageHandler(message);
+  };
+
+  // Forward every JSON-RPC message carried by an SSE body (per-request response or GET stream);
+  // a broken stream is handed to onBroken, except once the transport is being torn down
+  const consumeEventStream = (
+    body: ReadableStream<Uint8Array>,
+    streamName: string,
+    onBroken: (err: unknown) => void,
+    onMessage: (message: JsonRpcMessage) => void = dispatch
+  ): void => {
+    readSseStream(body, event => {
+      if (event.event !== 'message') return;
+      const message = safeJsonParse(event.data);
+      message 
+        ? onMessage(message) 
+        : log(LOG_LEVELS.WARN, `Invalid JSON in ${streamName} from ${serverName}: ${event.data.substring(0, 100)}...`);
+    }).catch(err => {
+      if (!abortController.signal.aborted) onBroken(err);
+    });
+  };
+
+  // The GET stream is optional; servers that don't offer it answer 405
+  const openGetStream = async (): Promise<void> => {
+    if (closed || getStreamOpened || config.options?.openGetStream === false) return;
+    getStreamOpened = true;
+    
     try {
-      if (attempt > 0) {
-        log(LOG_LEVELS.INFO, `Retrying transport creation for ${serverName} (${attempt}/${maxRetries})`);
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+      const res = await fetch(config.url, {
+        method: 'GET',
+        headers: buildHeaders('text/event-stream'),
+        signal: abortController.signal,
+      });
+      
+      if (res.status === 405) {
+        log(LOG_LEVELS.DEBUG, `Server ${serverName} does not offer a GET stream`);
+        return;
+      }
+      if (!res.ok || !res.body) {
+        log(LOG_LEVELS.WARN, `Failed to open GET stream for ${serverName}: HTTP ${res.status}`);
+        return;
+      }
+      // Only server-initiated messages travel here, so a broken stream is reopened rather than failing the client
+      consumeEventStream(res.body, 'GET stream', err => {
+        log(LOG_LEVELS.WARN, `GET stream for ${serverName} broke, reopening in ${GET_STREAM_REOPEN_DELAY_MS}ms: ${String(err)}`);
+        getStreamOpened = false;
+        getStreamReopenTimer = setTimeout(openGetStream, GET_STREAM_REOPEN_DELAY_MS);
+      });
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        log(LOG_LEVELS.WARN, `Failed to open GET stream for ${serverName}: ${String(err)}`);
+      }
+    }
+  };
+
+  return {
+    send: async (message: JsonRpcMessage) => {
+      if (closed) {
+        throw createTypedError('transportClosed', `Cannot send to ${serverName}: HTTP transport is closed`, messageOrigin(serverName, message));
+      }
+      if ('method' in message && 'id' in message && message.method === API_METHODS.INITIALIZE) {
+        initializeRequestId = message.id;
       }
       
-      // Create the appropriate transport based on type
-      if (config.type === 'stdio') {
-        // Cast for type safety
-        const stdioConfig = config as StdioTransportConfig;
-        
+      let res: Response;
+      try {
+        res = await fetch(config.url, {
+          method: 'POST',
+          headers: {
+            ...buildHeaders('application/json, text/event-stream'),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(message),
+          signal: abortController.signal,
+        });
+      } catch (err) {
+        const errorMessage = `Error sending message to ${serverName} via HTTP: ${String(err)}`;
+        if (abortController.signal.aborted) {
+          log(LOG_LEVELS.INFO, `Request to ${serverName} was aborted (expected)`);
+        }
+        // Either the transport was closed or the server could not be reached, e.g. the connection was refused
+        throw createTypedError('transportClosed', errorMessage, messageOrigin(serverName, message));
+      }
+
+      const assignedSessionId = res.headers.get(HTTP_HEADERS.SESSION_ID);
+      if (assignedSessionId) sessionId = assignedSessionId;
+
+      // A 404 for a request carrying a session ID means the server terminated the session
+      if (res.status === 404 && sessionId) {
+        const expiredError = createTypedError(
+          'transportClosed',
+          `Session ${sessionId} for ${serverName} has expired`,
+          messageOrigin(serverName, message),
+          undefined,
+          { status: res.status }
+        );
+        sessionId = undefined;
+        errorHandler(expiredError);
+        throw expiredError;
+      }
+      
+      if (!res.ok) {
+        const body = await res.text().catch(() => '');
+        throw createTypedError(
+          'protocol',
+          `HTTP ${res.status} from ${serverName}: ${body.substring(0, 100)}`,
+          messageOrigin(serverName, message),
+          undefined,
+          { status: res.status }
+        );
+      }
+
+      const contentType = res.headers.get('Content-Type') ?? '';
+      
+      if (res.status === 202 || !res.body) {
+        // Accepted notifications and responses carry no body
+        await res.body?.cancel();
+      } else if (contentType.includes('text/event-stream')) {
+        // Responses for this request arrive on its own stream; don't block the sender on it
+        const request = 'method' in message && 'id' in message ? message : undefined;
+        let answered = false;
+        consumeEventStream(res.body, 'response stream', err => {
+          // Only this request lost its answer; the session and other requests carry on
+          if (!request || answered) return;
+          dispatch(createClientErrorResponse(
+            request.id,
+            `Response stream for ${request.method} from ${serverName} broke: ${String(err)}`,
+            undefined,
+            'transportClosed'
+          ));
+        }, received => {
+          if (request && 'id' in received && !('method' in received) && received.id === request.id) answered = true;
+          dispatch(received);
+        });
+      } else if (contentType.includes('application/json')) {
+        const text = await res.text();
+        const messages = parseJsonRpcPayload(text);
+        if (!messages) {
+          throw createTypedError('protocol', `Invalid JSON via HTTP from ${serverName}: ${text.substring(0, 100)}...`, messageOrigin(serverName, message));
+        }
+        messages.forEach(dispatch);
+      } else {
+        await res.body.cancel();
+      }
+
+      if ('method' in message && message.method === API_METHODS.INITIALIZE) {
+        openGetStream();
+      }
+    },
+    close: async () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(getStreamReopenTimer);
+      
+      // Explicitly end the session so the server can release its resources
+      if (sessionId) {
         try {
-          // Spawn process with error handling
-          const proc = Bun.spawn({
-            cmd: [stdioConfig.command, ...(stdioConfig.args || [])],
-            env: { ...process.env, ...stdioConfig.env },
-            cwd: stdioConfig.cwd || process.cwd(),
-            stdin: 'pipe',
-            stdout: 'pipe',
+          const res = await fetch(config.url, {
+            method: 'DELETE',
+            headers: buildHeaders('application/json'),
+            signal: AbortSignal.timeout(SESSION_TERMINATION_TIMEOUT_MS),
+          });
+          if (res.status === 405) {
+            log(LOG_LEVELS.DEBUG, `Server ${serverName} does not allow clients to terminate sessions`);
+          }
+        } catch (err) {
+          log(LOG_LEVELS.INFO, `Failed to terminate session for ${serverName}: ${String(err)}`);
+        }
+      }
+      
+      abortController.abort('Client closing connection');
+    },
+    isClosed: () => closed,
+    _details: { 
+      type: 'http', 
+      abortController,
+      get sessionId() { return sessionId; }
+    }
+  };
+};
+
+const createSseTransport = (
+  serverName: string,
+  config: SseTransportConfig,
+  messageHandler: (message: JsonRpcMessage) => void,
+  errorHandler: (error: Error) => void,
+  reconnectHandler?: () => void
+): Transport => {
+  const abortController = new AbortController();
+  let streamController: AbortController | null = null;
+  let endpointUrl: string | undefined;
+  let lastEventId: string | undefined;
+  let connected = false;
+  let closed = false;
+  let connectPromise: Promise<string> | null = null;
+  // Bumped whenever a reconnect lands on a different endpoint, i.e. a new session
+  let session = 0;
+
+  const reconnectPolicy = {
+    maxAttempts: config.reconnect?.maxAttempts ?? DEFAULT_SSE_RECONNECT_ATTEMPTS,
+    baseDelayMs: config.reconnect?.baseDelayMs ?? DEFAULT_SSE_RECONNECT_BASE_DELAY_MS,
+    jitterMs: config.reconnect?.jitterMs ?? DEFAULT_SSE_RECONNECT_JITTER_MS,
+  };
+
+  // Opens the event stream and resolves with the POST endpoint announced by its `endpoint` event
+  const openStream = (): Promise<string> => new Promise<string>((resolve, reject) => {
+    const controller = new AbortController();
+    streamController = controller;
+    let endpointReceived = false;
+
+    fetch(config.url, {
+      method: 'GET',
+      headers: { 
+        ...config.headers, 
+        Accept: 'text/event-stream',
+        // Let the server replay anything missed while disconnected
+        ...(lastEventId !== undefined ? { [HTTP_HEADERS.LAST_EVENT_ID]: lastEventId } : {}),
+      },
+      signal: controller.signal,
+    })
+      .then(res => {
+        if (!res.ok || !res.body) {
+          throw createMcpError(`HTTP ${res.status}`, undefined, { status: res.status });
+        }
+        connected = true;
+        
+        return readSseStream(res.body, event => {
+          if (event.id !== undefined) lastEventId = event.id;
+          
+          if (event.event === 'endpoint') {
+            try {
+              // The endpoint may be relative to the stream URL
+              endpointUrl = new URL(event.data.trim(), config.url).toString();
+              endpointReceived = true;
+              resolve(endpointUrl);
+            } catch {
+              reject(createTypedError('protocol', `Invalid SSE endpoint from ${serverName}: ${event.data.substring(0, 100)}`, { serverName }));
+            }
+          } else if (event.event === 'message') {
+            const message = safeJsonParse(event.data);
+            message 
+              ? messageHandler(message) 
+              : errorHandler(createTypedError('protocol', `Invalid JSON via SSE: ${event.data.substring(0, 100)}...`, { serverName }));
+          }
+        });
+      })
+      .then(() => {
+        throw createMcpError('Stream ended');
+      })
+      .catch(err => {
+        connected = false;
+        // Aborts come from close() or a connection timeout, which report on their own
+        if (controller.signal.aborted) return;
+        
+        const reason = err instanceof Error ? err.message : String(err);
+        if (endpointReceived) {
+          handleStreamLost(reason);
+        } else {
+          reject(createTypedError('initialization', `SSE connection error for ${serverName}: ${reason}`, { serverName }));
+        }
+      });
+  });
+
+  const openStreamWithTimeout = (): Promise<string> => promiseWithTimeout(
+    openStream(),
+    SSE_CONNECTION_TIMEOUT_MS,
+    () => streamController?.abort('SSE connection timeout'),
+    `SSE connection timeout for ${serverName}: no endpoint event received`,
+    { serverName }
+  );
+
+  // Retry with exponential backoff and jitter; in-flight requests stay pending meanwhile
+  const reconnect = async (initialReason: string): Promise<string> => {
+    let reason = initialReason;
+    const previousEndpoint = endpointUrl;
+    
+    for (let attempt = 1; attempt <= reconnectPolicy.maxAttempts; attempt++) {
+      const delayMs = reconnectPolicy.baseDelayMs * 2 ** (attempt - 1) + Math.random() * reconnectPolicy.jitterMs;
+      log(LOG_LEVELS.INFO, `SSE stream for ${serverName} lost (${reason}), reconnecting in ${Math.round(delayMs)}ms (${attempt}/${reconnectPolicy.maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      
+      if (closed) {
+        throw createTypedError('transportClosed', `SSE transport for ${serverName} closed while reconnecting`, { serverName });
+      }
+      
+      try {
+        const endpoint = await openStreamWithTimeout();
+        log(LOG_LEVELS.INFO, `Reconnected to ${serverName} after ${attempt} attempt(s)`);
+        // The same endpoint resumes the session; a new one has to be initialized again
+        if (endpoint !== previousEndpoint) {
+          session++;
+          reconnectHandler?.();
+        }
+        return endpoint;
+      } catch (err) {
+        reason = err instanceof Error ? err.message : String(err);
+      }
+    }
+    
+    throw createTypedError(
+      'transportClosed',
+      `SSE connection to ${serverName} lost after ${reconnectPolicy.maxAttempts} reconnect attempt(s): ${reason}`,
+      { serverName }
+    );
+  };
+
+  // Sends issued during a reconnect wait on it through connectPromise
+  const handleStreamLost = (reason: string): void => {
+    if (closed) return;
+    
+    const attempt = reconnect(reason);
+    connectPromise = attempt;
+    attempt.catch(err => {
+      if (connectPromise === attempt) connectPromise = null;
+      // Only now is the connection given up, failing whatever is still pending
+      if (!closed) errorHandler(err instanceof Error ? err : createTypedError('transportClosed', String(err), { serverName }));
+    });
+  };
+
+  // Servers must announce where to POST before anything can be sent
+  const connect = (): Promise<string> => {
+    if (connectPromise) return connectPromise;
+    
+    const attempt = openStreamWithTimeout();
+    connectPromise = attempt;
+    attempt.catch(() => {
+      if (connectPromise === attempt) connectPromise = null;
+    });
+    return attempt;
+  };
+
+  // Initial connection attempt
+  connect().catch(err => errorHandler(createTypedError('initialization', `Initial SSE connection failed: ${String(err)}`, { serverName })));
+
+  return {
+    send: async (message: JsonRpcMessage) => {
+      const sendSession = session;
+      const postUrl = await connect();
+      // Messages that waited out a reconnect were meant for the session that was lost
+      if (sendSession !== session) {
+        throw createTypedError(
+          'transportClosed',
+          `Cannot send to ${serverName}: the session was replaced while reconnecting`,
+          messageOrigin(serverName, message)
+        );
+      }
+      let res: Response;
+      try {
+        res = await fetch(postUrl, {
+          method: 'POST',
+          headers: {
+            ...config.headers,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(message),
+          signal: abortController.signal,
+        });
+      } catch (err) {
+        const errorMessage = `Error sending message to ${serverName} via HTTP: ${String(err)}`;
+        if (abortController.signal.aborted) {
+          // Expected abort, handle gracefully
+          log(LOG_LEVELS.INFO, `Request to ${serverName} was aborted (expected)`);
+        } else {
+          // Only this message failed; the event stream decides whether the connection is lost
+          log(LOG_LEVELS.WARN, errorMessage);
+        }
+        throw createTypedError('transportClosed', errorMessage, messageOrigin(serverName, message));
+      }
+      
+      // Responses are delivered on the event stream, so the POST body is only an acknowledgement
+      await res.body?.cancel();
+      // A rejected POST fails only this message, not the whole connection
+      if (!res.ok) {
+        throw createTypedError(
+          'protocol',
+          `Error sending message to ${serverName} via HTTP: HTTP ${res.status}`,
+          messageOrigin(serverName, message),
+          undefined,
+          { status: res.status }
+        );
+      }
+    },
+    close: async () => {
+      closed = true;
+      abortController.abort('Client closing connection');
+      streamController?.abort('Client closing connection');
+      streamController = null;
+      connected = false;
+      connectPromise = null;
+    },
+    isClosed: () => !connected,
+    _details: { 
+      type: 'sse', 
+      abortController,
+      get endpointUrl() { return endpointUrl; }
+    }
+  };
+};
+
+// Bun's WebSocket client also accepts upgrade headers alongside the subprotocols
+const WebSocketClient = globalThis.WebSocket as unknown as new (
+  url: string,
+  options: { headers?: Readonly<Record<string, string>>; protocols?: ReadonlyArray<string> }
+) => WebSocketCompatible;
+
+const WEBSOCKET_OPEN = 1;
+const WEBSOCKET_NORMAL_CLOSURE = 1000;
+
+const createWebSocketTransport = async (
+  serverName: string,
+  config: WebSocketTransportConfig,
+  messageHandler: (message: JsonRpcMessage) => void,
+  errorHandler: (error: Error) => void
+): Promise<Transport> => {
+  const pingIntervalMs = config.options?.pingIntervalMs ?? DEFAULT_WEBSOCKET_PING_INTERVAL_MS;
+  const connectionTimeoutMs = config.options?.connectionTimeoutMs ?? WEBSOCKET_CONNECTION_TIMEOUT_MS;
+  let closing = false;
+  let closed = false;
+  let closeCode: number | undefined;
+  let closeReason: string | undefined;
+  let awaitingPong = false;
+  let keepaliveTimer: ReturnType<typeof setInterval> | null = null;
+
+  // No subprotocol is requested unless configured; servers that do not echo one would refuse the upgrade
+  const protocols = typeof config.protocols === 'string' ? [config.protocols] : config.protocols;
+  const socket = new WebSocketClient(config.url, {
+    headers: config.headers,
+    ...(protocols ? { protocols } : {}),
+  });
+
+  const closedPromise = new Promise<void>(resolve => {
+    socket.addEventListener('close', (event: CloseEvent) => {
+      closed = true;
+      closeCode = event.code;
+      closeReason = event.reason;
+      if (keepaliveTimer) clearInterval(keepaliveTimer);
+      
+      if (!closing) {
+        errorHandler(createTypedError(
+          'transportClosed',
+          `WebSocket connection to ${serverName} closed with code ${event.code}${event.reason ? `: ${event.reason}` : ''}`,
+          { serverName },
+          undefined,
+          { closeCode: event.code, closeReason: event.reason }
+        ));
+      }
+      resolve();
+    });
+  });
+
+  await promiseWithTimeout(
+    new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve());
+      socket.addEventListener('error', () => reject(createTypedError('initialization', `WebSocket connection error for ${serverName}`, { serverName })));
+      closedPromise.then(() => reject(createTypedError(
+        'initialization',
+        `WebSocket connection to ${serverName} closed during handshake with code ${closeCode ?? 'unknown'}`,
+        { serverName }
+      )));
+    }),
+    connectionTimeoutMs,
+    () => {
+      closing = true;
+      socket.close();
+    },
+    `WebSocket connection timeout for ${serverName}`,
+    { serverName }
+  ).catch(err => {
+    // The close event would otherwise report the failed handshake a second time
+    closing = true;
+    throw err;
+  });
+
+  socket.addEventListener('message', (event: MessageEvent) => {
+    const text = typeof event.data === 'string' ? event.data : new TextDecoder().decode(event.data);
+    const messages = parseJsonRpcPayload(text);
+    messages 
+      ? messages.forEach(messageHandler) 
+      : log(LOG_LEVELS.WARN, `Invalid JSON via WebSocket from ${serverName}: ${text.substring(0, 100)}...`);
+  });
+  
+  socket.addEventListener('pong', () => {
+    awaitingPong = false;
+  });
+
+  // A ping left unanswered for a whole interval means the connection is dead
+  if (pingIntervalMs > 0 && socket.ping) {
+    keepaliveTimer = setInterval(() => {
+      if (awaitingPong) {
+        log(LOG_LEVELS.WARN, `WebSocket keepalive for ${serverName} timed out after ${pingIntervalMs}ms`);
+        socket.close(4000, 'Keepalive timeout');
+        return;
+      }
+      awaitingPong = true;
+      socket.ping?.();
+    }, pingIntervalMs);
+  }
+
+  return {
+    send: async (message: JsonRpcMessage) => {
+      if (socket.readyState !== WEBSOCKET_OPEN) {
+        throw createTypedError('transportClosed', `Cannot send to ${serverName}: WebSocket is not open`, messageOrigin(serverName, message));
+      }
+      socket.send(JSON.stringify(message));
+    },
+    close: async () => {
+      if (closing || closed) return;
+      closing = true;
+      if (keepaliveTimer) clearInterval(keepaliveTimer);
+      socket.close(WEBSOCKET_NORMAL_CLOSURE, 'Client closing connection');
+      
+      await Promise.race([
+        closedPromise,
+        new Promise<void>(resolve => setTimeout(resolve, PROCESS_TERMINATION_TIMEOUT_MS))
+      ]);
+    },
+    isClosed: () => closing || closed,
+    _details: {
+      type: 'websocket',
+      protocol: socket.protocol,
+      get closeCode() { return closeCode; },
+      get closeReason() { return closeReason; }
+    }
+  };
+};
+
+// Attaches to a long-lived server listening on a Unix domain socket or TCP port,
+// using the same newline-delimited JSON framing as stdio
+const createSocketTransport = async (
+  serverName: string,
+  config: SocketTransportConfig,
+  messageHandler: (message: JsonRpcMessage) => void,
+  errorHandler: (error: Error) => void
+): Promise<Transport> => {
+  const address = 'path' in config ? config.path : `${config.host ?? 'localhost'}:${config.port}`;
+  const connectionTimeoutMs = config.options?.connectionTimeoutMs ?? SOCKET_CONNECTION_TIMEOUT_MS;
+  const encoder = new TextEncoder();
+  let connection: Socket<undefined> | undefined; // Set as soon as the socket opens
+  const readChunk = createStdioReader(serverName, messageHandler, errorHandler, {
+    ignoreNonJsonLines: config.options?.ignoreNonJsonLines,
+    debugMode: config.options?.debugMode,
+    maxMessageSize: config.options?.maxMessageSize,
+    reply: response => {
+      if (connection && !closing && !closed) write(connection, encoder.encode(JSON.stringify(response) + '\n'));
+    }
+  });
+  let unwritten: Uint8Array | null = null; // Bytes the socket could not accept yet, in order
+  let closing = false;
+  let closed = false;
+  let resolveClosed = () => {};
+  const closedPromise = new Promise<void>(resolve => { resolveClosed = resolve; });
+
+  const flush = (socket: Socket<undefined>) => {
+    if (!unwritten) return;
+    const written = socket.write(unwritten);
+    unwritten = written < unwritten.length ? unwritten.subarray(Math.max(written, 0)) : null;
+  };
+
+  const write = (socket: Socket<undefined>, bytes: Uint8Array) => {
+    if (unwritten) {
+      const merged = new Uint8Array(unwritten.length + bytes.length);
+      merged.set(unwritten);
+      merged.set(bytes, unwritten.length);
+      unwritten = merged;
+    } else {
+      unwritten = bytes;
+    }
+    flush(socket);
+  };
+
+  const handlers: SocketHandler<undefined> = {
+    open: socket => { connection = socket; },
+    data: (_socket, data) => readChunk(data),
+    drain: socket => flush(socket),
+    // The server finished writing; finish our side so the socket closes
+    end: socket => { socket.end(); },
+    error: (_socket, error) => {
+      log(LOG_LEVELS.WARN, `Socket error for ${serverName} (${address}): ${error.message}`);
+    },
+    close: () => {
+      closed = true;
+      // Like an unexpected process exit, a server-side close drops the client
+      if (!closing) {
+        errorHandler(createTypedError('transportClosed', `Socket connection to ${serverName} (${address}) was closed by the server`, { serverName }));
+      }
+      resolveClosed();
+    },
+  };
+
+  const connecting = 'path' in config
+    ? Bun.connect({ unix: config.path, socket: handlers })
+    : Bun.connect({ hostname: config.host ?? 'localhost', port: config.port, socket: handlers });
+
+  const socket = await promiseWithTimeout(
+    connecting.catch(err => {
+      throw createTypedError(
+        'initialization',
+        `Failed to connect to ${serverName} at ${address}: ${err instanceof Error ? err.message : String(err)}`,
+        { serverName }
+      );
+    }),
+    connectionTimeoutMs,
+    () => {
+      // A connection that completes after the timeout is not used
+      closing = true;
+      connecting.then(late => late.end()).catch(() => {});
+    },
+    `Socket connection timeout for ${serverName} (${address})`,
+    { serverName }
+  );
+
+  return {
+    send: async (message: JsonRpcMessage) => {
+      if (closing || closed) {
+        throw createTypedError('transportClosed', `Cannot send to ${serverName}: Socket is closed`, messageOrigin(serverName, message));
+      }
+
+      const messageStr = JSON.stringify(message) + '\n';
+
+      // Log outgoing message if debug mode is enabled
+      if (config.options?.debugMode) {
+        console.log(`[MCP RAW OUTPUT] ${messageStr.trim()}`);
+      }
+
+      write(socket, encoder.encode(messageStr));
+    },
+    close: async () => {
+      if (closing || closed) return;
+      closing = true;
+      socket.end();
+
+      await Promise.race([
+        closedPromise,
+        new Promise<void>(resolve => setTimeout(resolve, PROCESS_TERMINATION_TIMEOUT_MS))
+      ]);
+    },
+    isClosed: () => closing || closed,
+    _details: { type: 'socket', address }
+  };
+};
+
+// Creates two connected in-process channel ends. Messages are cloned and delivered
+// asynchronously, so both sides behave as if talking over a real connection.
+export const createMemoryChannelPair = (): readonly [MemoryChannel, MemoryChannel] => {
+  type ChannelEnd = {
+    messageListeners: Set<(message: JsonRpcMessage) => void>;
+    closeListeners: Set<() => void>;
+  };
+  const createEnd = (): ChannelEnd => ({ messageListeners: new Set(), closeListeners: new Set() });
+  const ends = [createEnd(), createEnd()] as const;
+  let closed = false;
+
+  const closeBoth = () => {
+    if (closed) return;
+    closed = true;
+    queueMicrotask(() => ends.forEach(end => end.closeListeners.forEach(listener => listener())));
+  };
+
+  const toChannel = (self: ChannelEnd, peer: ChannelEnd): MemoryChannel => Object.freeze({
+    postMessage: (message: JsonRpcMessage) => {
+      if (closed) throw createTypedError('transportClosed', 'Cannot post to a closed memory channel');
+      const copy = structuredClone(message);
+      queueMicrotask(() => peer.messageListeners.forEach(listener => listener(copy)));
+    },
+    onMessage: (listener: (message: JsonRpcMessage) => void) => {
+      self.messageListeners.add(listener);
+      return () => { self.messageListeners.delete(listener); };
+    },
+    close: closeBoth,
+    onClose: (listener: () => void) => {
+      self.closeListeners.add(listener);
+      return () => { self.closeListeners.delete(listener); };
+    },
+  });
+
+  return [toChannel(ends[0], ends[1]), toChannel(ends[1], ends[0])];
+};
+
+// Serves a handler function on the far end of a fresh channel pair
+const serveMemoryHandler = (config: Extract<MemoryTransportConfig, { handler: unknown }>): MemoryChannel => {
+  const [clientEnd, serverEnd] = createMemoryChannelPair();
+  const sendToClient = (message: JsonRpcMessage) => serverEnd.postMessage(message);
+  // The client may disconnect while a handler is still working; its answer has nowhere to go
+  const answer = (response: JsonRpcMessage) => {
+    try {
+      sendToClient(response);
+    } catch {
+      log(LOG_LEVELS.DEBUG, 'Dropping memory server answer after the channel closed');
+    }
+  };
+
+  serverEnd.onMessage(async message => {
+    try {
+      const response = await config.handler(message, sendToClient);
+      if (response) answer(response);
+    } catch (err) {
+      // Handler failures become JSON-RPC errors for requests, just like a real server
+      if ('id' in message && 'method' in message) {
+        answer(createJsonRpcErrorResponse(
+          message.id, ERROR_CODES.INTERNAL_ERROR, err instanceof Error ? err.message : String(err)
+        ));
+      }
+    }
+  });
+
+  return clientEnd;
+};
+
+const createMemoryTransport = (
+  serverName: string,
+  config: MemoryTransportConfig,
+  messageHandler: (message: JsonRpcMessage) => void,
+  errorHandler: (error: Error) => void
+): Transport => {
+  const channel = 'handler' in config ? serveMemoryHandler(config) : config.channel;
+  let closed = false;
+
+  const unsubscribeMessages = channel.onMessage(message => {
+    try {
+      messageHandler(message);
+    } catch (handlerError) {
+      errorHandler(createTypedError('protocol', `Error processing message: ${handlerError instanceof Error ? handlerError.message : String(handlerError)}`, { serverName }));
+    }
+  });
+  
+  const unsubscribeClose = channel.onClose(() => {
+    if (closed) return;
+    closed = true;
+    unsubscribeMessages();
+    errorHandler(createTypedError('transportClosed', `In-memory channel for ${serverName} was closed by the server`, { serverName }));
+  });
+
+  return {
+    send: async (message: JsonRpcMessage) => {
+      if (closed) {
+        throw createTypedError('transportClosed', `Cannot send to ${serverName}: In-memory channel is closed`, messageOrigin(serverName, message));
+      }
+      channel.postMessage(message);
+    },
+    close: async () => {
+      if (closed) return;
+      closed = true;
+      unsubscribeMessages();
+      unsubscribeClose();
+      channel.close();
+    },
+    isClosed: () => closed,
+    _details: { type: 'memory' }
+  };
+};
+
+export const createTransport = async (
+  serverName: string,
+  config: TransportConfig,
+  messageHandler: (message: JsonRpcMessage) => void,
+  errorHandler: (error: Error) => void,
+  exitHandler?: (code: number | null) => void,
+  reconnectHandler?: () => void
+): Promise<Transport> => {
+  let transport: Transport;
+  
+  // Add retry logic for transport creation
+  const maxRetries = (config.type === 'stdio' || config.type === 'socket') && 
+                   config.options?.initializationRetries ? 
+                   config.options.initializationRetries : 1;
+  const retryDelayMs = (config.type === 'stdio' || config.type === 'socket') && 
+                     config.options?.initializationRetryDelay ? 
+                     config.options.initializationRetryDelay : 500;
+  
+  let lastError: Error | null = null;
+  
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      if (attempt > 0) {
+        log(LOG_LEVELS.INFO, `Retrying transport creation for ${serverName} (${attempt}/${maxRetries})`);
+        // Wait before retry
+        await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+      }
+      
+      // Create the appropriate transport based on type
+      if (config.type === 'stdio') {
+        // Cast for type safety
+        const stdioConfig = config as StdioTransportConfig;
+        const stderrTail = createRingBuffer<string>(stdioConfig.options?.stderrBufferLines ?? DEFAULT_STDERR_BUFFER_LINES);
+        
+        try {
+          // Spawn process with error handling
+          const proc = Bun.spawn({
+            cmd: [stdioConfig.command, ...(stdioConfig.args || [])],
+            env: { ...process.env, ...stdioConfig.env },
+            cwd: stdioConfig.cwd || process.cwd(),
+            stdin: 'pipe',
+            stdout: 'pipe',
             stderr: 'pipe',
             onExit: (subprocess, exitCode) => {
               // Handle process exit with proper error propagation
@@ -290,7 +1672,17 @@ export const createTransport = async (
               // Ignore common exit codes during tests (0, 1, 143, null on Windows)
               if (normalizedExitCode !== 0 && normalizedExitCode !== 1 && normalizedExitCode !== 143) { 
                 const errorMsg = `Server process ${serverName} exited with code ${normalizedExitCode !== null ? normalizedExitCode : 'unknown'}`;
-                errorHandler(createMcpError(errorMsg, normalizedExitCode !== null ? normalizedExitCode : -1));
+                errorHandler(Object.assign(
+                  createTypedError('transportClosed', errorMsg, { serverName }, undefined, { exitCode: normalizedExitCode }),
+                  {
+                    context: {
+                      serverName,
+                      command: stdioConfig.command,
+                      args: stdioConfig.args,
+                      rawOutput: stderrTail.toArray().join('\n')
+                    }
+                  }
+                ));
               }
             },
           });
@@ -303,74 +1695,91 @@ export const createTransport = async (
           // Handle quick exits by checking if process exited immediately
           // This helps with tests that use commands that exit immediately
           if (proc.killed || proc.exitCode !== null) {
-            const exitCode = proc.exitCode !== null ? proc.exitCode : -1;
-            throw createMcpError(
-              `Process for ${serverName} exited immediately with code ${exitCode}`,
-              exitCode
+            throw createTypedError(
+              'transportClosed',
+              `Process for ${serverName} exited immediately with code ${proc.exitCode ?? 'unknown'}`,
+              { serverName },
+              undefined,
+              { exitCode: proc.exitCode }
             );
           }
           
           // Set up stdio transport
-          let buffer = ''; // Store incomplete messages
+          const codec = resolveMessageCodec(stdioConfig.options?.framing);
+          const maxMessageSize = stdioConfig.options?.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE_BYTES;
+          const encoder = new TextEncoder();
           
           // Process stdout stream
-          const processStream = async (reader: ReaderCompatible<Uint8Array>, processor: (t: string, b: string) => string, 
-            buffer = '', errorMsg: string, errFn = errorHandler) => {
+          const processStream = async (reader: ReaderCompatible<Uint8Array>, processor: (chunk: Uint8Array) => void, 
+            errorMsg: string, errFn = errorHandler) => {
             try {
-              let buf = buffer;
               while (true) {
                 const { done, value } = await reader.read();
                 if (done) break;
-                buf = processor(new TextDecoder().decode(value), buf);
+                if (value) processor(value);
               }
             } catch (err) { 
               // Ignore errors during shutdown
               if (!proc.killed) {
-                errFn(createMcpError(`${errorMsg}: ${String(err)}`)); 
+                errFn(createTypedError('transportClosed', `${errorMsg}: ${String(err)}`, { serverName }));
               }
             }
           };
 
           // Create readers for streams - use as ReaderCompatible for type compatibility
-          if (!proc.stdout || !proc.stderr) {
+          if (!proc.stdin || !proc.stdout || !proc.stderr) {
             throw createMcpError(`Failed to get stdio streams for ${serverName}`);
           }
           
           const stdoutReader = (proc.stdout as ReadableStream<Uint8Array>).getReader() as ReaderCompatible<Uint8Array>;
           const stderrReader = (proc.stderr as ReadableStream<Uint8Array>).getReader() as ReaderCompatible<Uint8Array>;
+          const writeQueue = createWriteQueue(
+            serverName,
+            proc.stdin as unknown as SinkCompatible,
+            stdioConfig.options?.maxQueuedMessages
+          );
 
           // Handle stdout and stderr
           processStream(
             stdoutReader,
-            (text, buffer) => processStdioBuffer(
-              text, 
-              buffer, 
-              messageHandler, 
-              errorHandler,
-              {
-                ignoreNonJsonLines: stdioConfig.options?.ignoreNonJsonLines,
-                debugMode: stdioConfig.options?.debugMode
+            createStdioReader(serverName, messageHandler, errorHandler, {
+              ignoreNonJsonLines: stdioConfig.options?.ignoreNonJsonLines,
+              debugMode: stdioConfig.options?.debugMode,
+              codec,
+              maxMessageSize,
+              reply: response => {
+                writeQueue.enqueue(encoder.encode(codec.encode(response))).catch(err =>
+                  log(LOG_LEVELS.WARN, `Failed to answer ${serverName}: ${String(err)}`)
+                );
               }
-            ),
-            '',
+            }),
             `Error reading stdout from ${serverName}`
           ).catch(err => {
             // Ignore errors during shutdown
             if (!proc.killed) {
-              errorHandler(createMcpError(`Fatal stdout reader error: ${String(err)}`));
+              errorHandler(createTypedError('transportClosed', `Fatal stdout reader error: ${String(err)}`, { serverName }));
             }
           });
 
+          const stderrDecoder = new TextDecoder();
           processStream(
             stderrReader,
-            (text, buffer) => {
-              const lines = (buffer + text).split('\n');
-              lines.slice(0, -1).forEach(line => { 
-                if (line.trim()) logError(LOG_LEVELS.INFO, `${serverName} stderr: ${line.trim()}`);
-              });
-              return lines[lines.length - 1];
-            },
-            '',
+            createLineSplitter(
+              line => {
+                const text = stderrDecoder.decode(line).trim();
+                if (!text) return;
+                stderrTail.push(text);
+                logError(LOG_LEVELS.INFO, `${serverName} stderr: ${text}`);
+              },
+              {
+                maxLineBytes: maxMessageSize,
+                onOversizedLine: head => {
+                  const text = `${stderrDecoder.decode(head).trim()} (truncated)`;
+                  stderrTail.push(text);
+                  logError(LOG_LEVELS.INFO, `${serverName} stderr: ${text}`);
+                }
+              }
+            ),
             `Error reading stderr from ${serverName}`,
             err => {
               // Ignore errors during shutdown
@@ -439,25 +1848,26 @@ export const createTransport = async (
           
           // Transport interface
           transport = {
-            send: async (message: JsonRpcRequest | JsonRpcNotification) => {
+            send: async (message: JsonRpcMessage) => {
               try {
                 if (proc.killed) {
-                  throw createMcpError(`Cannot send to ${serverName}: Process is no longer running`);
+                  throw createTypedError('transportClosed', `Cannot send to ${serverName}: Process is no longer running`, messageOrigin(serverName, message));
                 }
                 
-                const messageStr = JSON.stringify(message) + '\n';
+                const messageStr = codec.encode(message);
                 
                 // Log outgoing message if debug mode is enabled
                 if (stdioConfig.options?.debugMode) {
                   console.log(`[MCP RAW OUTPUT] ${messageStr.trim()}`);
                 }
                 
-                if (!proc.stdin) {
-                  throw createMcpError(`Failed to get stdin for ${serverName}`);
-                }
-                
-                await (proc.stdin as any).write(new TextEncoder().encode(messageStr));
+                await writeQueue.enqueue(encoder.encode(messageStr), messageOrigin(serverName, message));
               } catch (err) {
+                // A full queue only rejects this message; the process is fine
+                if (isMcpError(err, 'queueFull')) {
+                  throw err;
+                }
+
                 // Format and log the error
                 const errorMessage = `Failed to write to stdin: ${String(err)}`;
                 
@@ -469,12 +1879,12 @@ export const createTransport = async (
                   log(LOG_LEVELS.INFO, `Process ${serverName} pipe closed, handling gracefully`);
                 } else {
                   // Only report non-pipe errors
-                  errorHandler(createMcpError(errorMessage));
+                  errorHandler(createTypedError('transportClosed', errorMessage, messageOrigin(serverName, message)));
                 }
                 
                 await cleanup();
                 
-                throw createMcpError(errorMessage);
+                throw createTypedError('transportClosed', errorMessage, messageOrigin(serverName, message));
               }
             },
             close: async () => {
@@ -482,7 +1892,12 @@ export const createTransport = async (
               return cleanup();
             },
             isClosed: () => proc.killed || closed,
-            _details: { type: 'stdio', process: proc }
+            _details: {
+              type: 'stdio',
+              process: proc,
+              get queueDepth() { return writeQueue.depth(); },
+              get stderr() { return stderrTail.toArray(); }
+            }
           };
           
           // If we get here, transport creation was successful
@@ -491,8 +1906,10 @@ export const createTransport = async (
           const formattedError = err instanceof Error ? err : new Error(String(err));
           
           // Keep track of the last error for potential retry
-          lastError = createMcpError(
+          lastError = createTypedError(
+            'initialization',
             `Failed to create stdio transport for ${serverName}: ${formattedError.message}`,
+            { serverName },
             formattedError['code'],
             formattedError['data']
           );
@@ -508,167 +1925,20 @@ export const createTransport = async (
           // Continue to next retry
           continue;
         }
+      } else if (config.type === 'http') {
+        transport = createHttpTransport(serverName, config, messageHandler, errorHandler);
+        return transport;
+      } else if (config.type === 'websocket') {
+        transport = await createWebSocketTransport(serverName, config, messageHandler, errorHandler);
+        return transport;
+      } else if (config.type === 'socket') {
+        transport = await createSocketTransport(serverName, config, messageHandler, errorHandler);
+        return transport;
+      } else if (config.type === 'memory') {
+        transport = createMemoryTransport(serverName, config, messageHandler, errorHandler);
+        return transport;
       } else { // SSE transport
-        const sseCfg = config as SseTransportConfig;
-        const abortController = new AbortController();
-        
-        // Update EventSource type
-        let eventSource: EventSourceCompatible | null = null;
-        let connected = false;
-        let connectPromise: Promise<void> | null = null;
-        
-        // Define the timeout constant only where it's used
-        const SSE_CONNECTION_TIMEOUT_MS = 10000;
-        
-        const connect = (): Promise<void> => {
-          if (connectPromise) return connectPromise;
-          
-          connectPromise = new Promise<void>((resolve, reject) => {
-            try {
-              // Cast to any to avoid type checking during instantiation
-              eventSource = new (globalThis as any).EventSource(sseCfg.url) as EventSourceCompatible;
-              
-              promiseWithTimeout(
-                new Promise<void>((connectionResolve) => {
-                  // Choose between addEventListener and onopen depending on which exists
-                  if (eventSource!.addEventListener) {
-                    eventSource!.addEventListener('open', () => { 
-                      connected = true; 
-                      connectionResolve();
-                      resolve(); 
-                    });
-                  } else if (eventSource!.onopen !== undefined) {
-                    eventSource!.onopen = () => { 
-                      connected = true; 
-                      connectionResolve();
-                      resolve(); 
-                    };
-                  }
-                }),
-                SSE_CONNECTION_TIMEOUT_MS,
-                undefined,
-                `SSE connection timeout for ${serverName}`
-              ).catch(err => {
-                if (eventSource) { 
-                  if (typeof eventSource.close === 'function') {
-                    eventSource.close();
-                  }
-                  eventSource = null; 
-                }
-                connectPromise = null;
-                reject(err);
-              });
-              
-              // Handle message events
-              if (eventSource.addEventListener) {
-                eventSource.addEventListener('message', (event: Event) => {
-                  try {
-                    // Type cast to MessageEvent
-                    const messageEvent = event as MessageEvent;
-                    const data = messageEvent.data as string;
-                    const message = safeJsonParse(data);
-                    message 
-                      ? messageHandler(message) 
-                      : errorHandler(createMcpError(`Invalid JSON via SSE: ${data.substring(0, 100)}...`));
-                  } catch (err) {
-                    errorHandler(createMcpError(`SSE message error: ${String(err)}`));
-                  }
-                });
-              } else if (eventSource.onmessage !== undefined) {
-                eventSource.onmessage = (event: any) => {
-                  try {
-                    const data = event.data as string;
-                    const message = safeJsonParse(data);
-                    message 
-                      ? messageHandler(message) 
-                      : errorHandler(createMcpError(`Invalid JSON via SSE: ${data.substring(0, 100)}...`));
-                  } catch (err) {
-                    errorHandler(createMcpError(`SSE message error: ${String(err)}`));
-                  }
-                };
-              }
-      
-              // Handle error events
-              if (eventSource.addEventListener) {
-                eventSource.addEventListener('error', () => {
-                  if (!connected) {
-                    reject(createMcpError(`SSE connection error for ${serverName}`));
-                    connectPromise = null;
-                  } else {
-                    errorHandler(createMcpError(`SSE error for ${serverName}`));
-                  }
-                });
-              } else if (eventSource.onerror !== undefined) {
-                eventSource.onerror = () => {
-                  if (!connected) {
-                    reject(createMcpError(`SSE connection error for ${serverName}`));
-                    connectPromise = null;
-                  } else {
-                    errorHandler(createMcpError(`SSE error for ${serverName}`));
-                  }
-                };
-              }
-              
-            } catch (err) {
-              reject(createMcpError(`SSE connection failed: ${String(err)}`));
-              connectPromise = null;
-            }
-          });
-          
-          return connectPromise;
-        };
-
-        // Initial connection attempt
-        connect().catch(err => errorHandler(createMcpError(`Initial SSE connection failed: ${String(err)}`)));
-
-        // Transport interface
-        transport = {
-          send: async (message: JsonRpcRequest | JsonRpcNotification) => {
-            if (!connected) await connect();
-            try {
-              await fetch(sseCfg.url, {
-                method: 'POST',
-                headers: {
-                  ...sseCfg.headers,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(message),
-                signal: abortController.signal,
-              });
-            } catch (err) {
-              const errorMessage = `Error sending message to ${serverName} via HTTP: ${String(err)}`;
-              if (abortController.signal.aborted) {
-                // Expected abort, handle gracefully
-                log(LOG_LEVELS.INFO, `Request to ${serverName} was aborted (expected)`);
-              } else {
-                errorHandler(createMcpError(errorMessage));
-                
-                // Try to reconnect once on error
-                try {
-                  log(LOG_LEVELS.INFO, `Attempting to reconnect to ${serverName}...`);
-                  await connect();
-                } catch (reconnectError) {
-                  log(LOG_LEVELS.ERROR, `Failed to reconnect to ${serverName}: ${String(reconnectError)}`);
-                }
-              }
-              throw createMcpError(errorMessage);
-            }
-          },
-          close: async () => {
-            abortController.abort('Client closing connection');
-            if (eventSource) { 
-              if (typeof eventSource.close === 'function') {
-                eventSource.close();
-              }
-              eventSource = null;
-            }
-            connected = false;
-            connectPromise = null;
-          },
-          isClosed: () => !connected,
-          _details: { type: 'sse', sseSource: eventSource || undefined, abortController }
-        };
-        
+        transport = createSseTransport(serverName, config, messageHandler, errorHandler, reconnectHandler);
         return transport;
       }
     } catch (err) {
@@ -687,48 +1957,47 @@ export const createTransport = async (
   }
   
   // If we get here without a successful transport, throw the last error
-  throw lastError || createMcpError(`Failed to create transport for ${serverName} after ${maxRetries + 1} attempts`);
+  throw lastError || createTypedError('initialization', `Failed to create transport for ${serverName} after ${maxRetries + 1} attempts`, { serverName });
 };
 
 export const handleMessage = (
   message: JsonRpcMessage, 
   serverName: string, 
   pendingRequests: PendingRequests,
-  onNotification?: NotificationHandler
+  onNotification?: NotificationHandler,
+  onRequest?: (request: JsonRpcRequest) => void
 ): void => {
+  // Handle requests from the server, which expect a response from us
+  if ('method' in message && 'id' in message) {
+    if (onRequest) {
+      onRequest(message);
+    } else {
+      log(LOG_LEVELS.WARN, `Ignoring ${message.method} request from ${serverName}: no request router`);
+    }
+    return;
+  }
+
   // Handle notifications
   if ('method' in message && !('id' in message)) {
-    // It's a notification
-    if (onNotification) {
-      const notification = {
-        method: message.method,
-        params: message.params
-      };
-      
-      // Special case for progress notifications - route to specific request if available
-      if (message.method === NOTIFICATION_METHODS.PROGRESS && message.params) {
-        const progressParams = message.params as unknown as { 
-          requestId: JsonRpcId;
-          progress: Progress;
-        };
-        
-        if (progressParams.requestId && pendingRequests.has(progressParams.requestId)) {
-          const resolver = pendingRequests.get(progressParams.requestId);
-          if (resolver?.onProgress && progressParams.progress) {
-            resolver.onProgress(progressParams.progress);
-          }
-        }
+    // Progress is reported against the progressToken sent with the request, which is its id
+    if (message.method === NOTIFICATION_METHODS.PROGRESS && message.params) {
+      const { progressToken, ...progress } = message.params as Progress & { progressToken?: JsonRpcId };
+      const resolver = progressToken !== undefined ? pendingRequests.get(progressToken) : undefined;
+      if (resolver?.onProgress && typeof progress.progress === 'number') {
+        resolver.onProgress(progress);
       }
-      
-      // Pass the notification to the global handler if present
-      onNotification(serverName, notification);
+    }
+    
+    // Pass the notification to the global handler if present
+    if (onNotification) {
+      onNotification(serverName, { method: message.method, params: message.params });
     }
     return;
   }
   
   // Handle responses with IDs (response to a request)
   if ('id' in message) {
-    const id = message.id;
+    const id = (message as JsonRpcResponse).id;
     const pendingRequest = pendingRequests.get(id);
     
     if (pendingRequest) {
@@ -742,15 +2011,23 @@ export const handleMessage = (
       
       // Handle success or error
       if ('error' in message && message.error) {
-        pendingRequest.reject(createMcpError(
+        // Oversized responses and broken response streams are replaced by the client with an error of its own
+        const clientKind = clientErrorResponses.get(message);
+        pendingRequest.reject(createTypedError(
+          clientKind ?? 'server',
           message.error.message || 'Unknown error',
-          message.error.code,
+          { serverName, method: pendingRequest.method, requestId: id },
+          clientKind ? undefined : message.error.code,
           message.error.data
         ));
       } else if ('result' in message) {
         pendingRequest.resolve(message.result);
       } else {
-        pendingRequest.reject(createMcpError('Invalid response format', -32603));
+        pendingRequest.reject(createTypedError(
+          'protocol',
+          'Invalid response format',
+          { serverName, method: pendingRequest.method, requestId: id }
+        ));
       }
     } else {
       log(LOG_LEVELS.WARN, `Received response for unknown request ID: ${id}`);
@@ -761,11 +2038,287 @@ export const handleMessage = (
   log(LOG_LEVELS.WARN, `Received invalid message format: ${JSON.stringify(message)}`);
 }
 
+// Requests every client answers without configuration
+const BUILT_IN_REQUEST_HANDLERS: Readonly<Record<string, ServerRequestHandler>> = {
+  [API_METHODS.PING]: () => ({}),
+};
+
+// Adapts a sampling handler to a sampling/createMessage route, rejecting malformed requests
+export const createSamplingRequestHandler = (handler: SamplingHandler): ServerRequestHandler =>
+  (serverName, request) => {
+    const params = request.params as Partial<CreateMessageRequest> | undefined;
+    if (!Array.isArray(params?.messages) || typeof params?.maxTokens !== 'number') {
+      throw createMcpError(
+        `Invalid ${API_METHODS.CREATE_MESSAGE} request: messages and maxTokens are required`,
+        ERROR_CODES.INVALID_PARAMS
+      );
+    }
+    return handler(serverName, params as CreateMessageRequest);
+  };
+
+const ELICITATION_FORMATS: Readonly<Record<string, (value: string) => boolean>> = {
+  email: value => /^[^\s@]+@[^\s@]+$/.test(value),
+  uri: value => URL.canParse(value),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value)),
+};
+
+// Returns a description of why value does not satisfy schema, or undefined if it does
+const checkElicitedValue = (schema: ElicitationPropertySchema, value: unknown): string | undefined => {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return 'must be a string';
+      if (schema.minLength !== undefined && value.length < schema.minLength) return `must be at least ${schema.minLength} characters`;
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) return `must be at most ${schema.maxLength} characters`;
+      if (schema.enum && !schema.enum.includes(value)) return `must be one of ${schema.enum.join(', ')}`;
+      const matchesFormat = schema.format ? ELICITATION_FORMATS[schema.format] : undefined;
+      if (matchesFormat && !matchesFormat(value)) return `must be a valid ${schema.format}`;
+      return undefined;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (schema.type === 'integer' && !Number.isInteger(value)) return 'must be an integer';
+      if (schema.minimum !== undefined && value < schema.minimum) return `must be at least ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `must be at most ${schema.maximum}`;
+      return undefined;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'must be a boolean';
+    default:
+      return `has unsupported type ${JSON.stringify((schema as { type?: unknown }).type)}`;
+  }
+};
+
+// Lists every way content fails to match the requested schema; empty when it matches
+export const validateElicitedContent = (schema: ElicitationSchema, content: unknown): string[] => {
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+    return ['content must be an object'];
+  }
+  const values = content as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+
+  const missing = (schema.required ?? [])
+    .filter(name => values[name] === undefined)
+    .map(name => `${name} is required`);
+  const invalid = Object.entries(values).flatMap(([name, value]) => {
+    if (!Object.hasOwn(properties, name)) return [`${name} is not in the requested schema`];
+    const problem = checkElicitedValue(properties[name], value);
+    return problem ? [`${name} ${problem}`] : [];
+  });
+  return [...missing, ...invalid];
+};
+
+// Adapts an elicitation handler to an elicitation/create route; accepted content
+// is checked against the requested schema before it reaches the server
+export const createElicitationRequestHandler = (handler: ElicitationHandler): ServerRequestHandler =>
+  async (serverName, request) => {
+    const params = request.params as Partial<ElicitRequest> | undefined;
+    if (typeof params?.message !== 'string' || typeof params?.requestedSchema?.properties !== 'object') {
+      throw createMcpError(
+        `Invalid ${API_METHODS.ELICIT} request: message and requestedSchema are required`,
+        ERROR_CODES.INVALID_PARAMS
+      );
+    }
+
+    const result = await handler(serverName, params as ElicitRequest);
+    if (result?.action === 'decline' || result?.action === 'cancel') {
+      return { action: result.action };
+    }
+    if (result?.action !== 'accept') {
+      throw createMcpError(`Elicitation handler returned an unknown action: ${JSON.stringify((result as { action?: unknown })?.action)}`);
+    }
+
+    const problems = validateElicitedContent(params.requestedSchema as ElicitationSchema, result.content);
+    if (problems.length > 0) {
+      throw createMcpError(
+        `Elicited content does not match the requested schema: ${problems.join('; ')}`,
+        ERROR_CODES.INTERNAL_ERROR,
+        { problems }
+      );
+    }
+    return { action: 'accept', content: result.content };
+  };
+
+// Capabilities advertised in initialize, depending on which features are configured
+export const buildClientCapabilities = (
+  features: Readonly<{ sampling?: SamplingHandler; roots?: ReadonlyArray<Root>; elicitation?: ElicitationHandler }>
+): Record<string, unknown> => ({
+  ...(features.sampling ? { sampling: {} } : {}),
+  ...(features.roots ? { roots: { listChanged: true } } : {}),
+  ...(features.elicitation ? { elicitation: {} } : {}),
+});
+
+// Roots identify local directories, so anything but a file:// URI is a configuration mistake
+export const validateRoots = (serverName: string, roots: ReadonlyArray<Root>): ReadonlyArray<Root> => {
+  const invalid = roots.find(root => typeof root?.uri !== 'string' || !root.uri.startsWith('file://'));
+  if (invalid) {
+    throw createMcpError(
+      `Invalid root for ${serverName}: ${JSON.stringify(invalid?.uri)} is not a file:// URI`,
+      ERROR_CODES.INVALID_PARAMS
+    );
+  }
+  return roots.map(root => ({ ...root }));
+};
+
+// Answers server-to-client requests: registered handlers first, then built-ins,
+// and METHOD_NOT_FOUND for anything else
+export const createRequestRouter = (
+  serverName: string,
+  handlers: Readonly<Record<string, ServerRequestHandler>>,
+  respond: (response: JsonRpcResponse) => Promise<void>
+) => {
+  const routes = { ...BUILT_IN_REQUEST_HANDLERS, ...handlers };
+
+  const answer = async (request: JsonRpcRequest): Promise<JsonRpcResponse> => {
+    const handler = Object.hasOwn(routes, request.method) ? routes[request.method] : undefined;
+    if (!handler) {
+      return createJsonRpcErrorResponse(request.id, ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+
+    try {
+      const result = await handler(serverName, { method: request.method, params: request.params });
+      return createJsonRpcResponse(request.id, result ?? {});
+    } catch (err) {
+      const error = err as { code?: unknown; message?: unknown; data?: unknown };
+      log(LOG_LEVELS.WARN, `Handler for ${request.method} request from ${serverName} failed: ${String(error?.message ?? err)}`);
+      return createJsonRpcErrorResponse(
+        request.id,
+        typeof error?.code === 'number' ? error.code : ERROR_CODES.INTERNAL_ERROR,
+        typeof error?.message === 'string' ? error.message : String(err),
+        error?.data
+      );
+    }
+  };
+
+  return (request: JsonRpcRequest): void => {
+    answer(request)
+      .then(respond)
+      .catch(err => log(LOG_LEVELS.WARN, `Failed to answer ${request.method} request from ${serverName}: ${String(err)}`));
+  };
+};
+
+// Accepts the revision the server chose if this client speaks it too
+export const negotiateProtocolVersion = (serverName: string, result: InitializeResult): string => {
+  const offered = result.protocolVersion;
+  const oldest = SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1];
+
+  if (offered === undefined) {
+    log(LOG_LEVELS.WARN, `Server ${serverName} did not report a protocol version; assuming ${oldest}`);
+    return oldest;
+  }
+
+  if (!(SUPPORTED_PROTOCOL_VERSIONS as ReadonlyArray<string>).includes(offered)) {
+    throw createTypedError(
+      'initialization',
+      `Server ${serverName} uses MCP protocol version ${offered}, but this client supports only ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`,
+      { serverName, method: API_METHODS.INITIALIZE },
+      undefined,
+      { requested: MCP_PROTOCOL_VERSION, received: offered, supported: SUPPORTED_PROTOCOL_VERSIONS }
+    );
+  }
+  return offered;
+};
+
+// Structural equality for capability values: arrays element by element, objects key by key
+const capabilityValuesEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b)
+      && a.length === b.length
+      && a.every((item, index) => capabilityValuesEqual(item, b[index]));
+  }
+  const aEntries = Object.entries(a);
+  return aEntries.length === Object.keys(b).length
+    && aEntries.every(([key, value]) => Object.hasOwn(b, key) && capabilityValuesEqual(value, (b as Record<string, unknown>)[key]));
+};
+
+// Dotted paths of the required capabilities the server did not declare. Objects are matched
+// key by key, so {} only asks for the key to be present; arrays and other values must be equal.
+export const findMissingCapabilities = (
+  required: Readonly<Record<string, unknown>>,
+  declared: Readonly<Record<string, unknown>> | undefined,
+  path = ''
+): ReadonlyArray<string> =>
+  Object.entries(required).flatMap(([key, expected]) => {
+    const keyPath = path ? `${path}.${key}` : key;
+    const actual = declared?.[key];
+    if (typeof expected === 'object' && expected !== null && !Array.isArray(expected)) {
+      return typeof actual === 'object' && actual !== null
+        ? findMissingCapabilities(expected as Record<string, unknown>, actual as Record<string, unknown>, keyPath)
+        : [keyPath];
+    }
+    return capabilityValuesEqual(actual, expected) ? [] : [keyPath];
+  });
+
+// Whether capabilities declare path: every segment present and the last one not false
+export const hasCapability = (capabilities: Readonly<Record<string, unknown>>, path: CapabilityPath): boolean => {
+  const value = path.split('.').reduce<unknown>(
+    (node, key) => (typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[key] : undefined),
+    capabilities
+  );
+  return value !== undefined && value !== null && value !== false;
+};
+
+// The capability each request needs; requests not listed here, such as ping, are always sent
+const REQUEST_CAPABILITIES: Readonly<Record<string, CapabilityPath>> = {
+  [API_METHODS.CALL_TOOL]: 'tools',
+  [API_METHODS.LIST_TOOLS]: 'tools',
+  [API_METHODS.LIST_RESOURCES]: 'resources',
+  [API_METHODS.LIST_RESOURCE_TEMPLATES]: 'resources',
+  [API_METHODS.READ_RESOURCE]: 'resources',
+  [API_METHODS.SUBSCRIBE_RESOURCE]: 'resources.subscribe',
+  [API_METHODS.UNSUBSCRIBE_RESOURCE]: 'resources.subscribe',
+  [API_METHODS.LIST_PROMPTS]: 'prompts',
+  [API_METHODS.GET_PROMPT]: 'prompts',
+  [API_METHODS.SET_LOGGING_LEVEL]: 'logging',
+  [API_METHODS.COMPLETE]: 'completions',
+};
+
+// List methods whose results belong to each catalog
+const CATALOG_LIST_METHODS: Readonly<Record<CatalogKind, ReadonlyArray<string>>> = {
+  tools: [API_METHODS.LIST_TOOLS],
+  resources: [API_METHODS.LIST_RESOURCES, API_METHODS.LIST_RESOURCE_TEMPLATES],
+  prompts: [API_METHODS.LIST_PROMPTS],
+};
+
+const CATALOG_CHANGE_NOTIFICATIONS: Readonly<Record<string, CatalogKind>> = {
+  [NOTIFICATION_METHODS.TOOLS_LIST_CHANGED]: 'tools',
+  [NOTIFICATION_METHODS.RESOURCES_LIST_CHANGED]: 'resources',
+  [NOTIFICATION_METHODS.PROMPTS_LIST_CHANGED]: 'prompts',
+};
+
+// The catalog a list_changed notification refers to, if any
+export const catalogForNotification = (method: string): CatalogKind | undefined =>
+  Object.hasOwn(CATALOG_CHANGE_NOTIFICATIONS, method) ? CATALOG_CHANGE_NOTIFICATIONS[method] : undefined;
+
+// The text blocks of a tool result, joined by newlines. Results come straight from the server,
+// so a missing content array counts as empty.
+export const getText = (result: CallToolResult): string =>
+  (result.content ?? [])
+    .filter((block): block is TextContent => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+
+// The image blocks of a tool result, in order
+export const getImages = (result: CallToolResult): ReadonlyArray<ImageContent> =>
+  (result.content ?? []).filter((block): block is ImageContent => block.type === 'image');
+
+// Server errors the lenient error policy hands to lenientFallback
+const LENIENT_ERROR_CODES: ReadonlyArray<number> = [
+  ERROR_CODES.METHOD_NOT_FOUND,
+  ERROR_CODES.INVALID_PARAMS,
+  ERROR_CODES.INTERNAL_ERROR,
+  ERROR_CODES.SERVER_ERROR,
+];
+
 export const createClientApi = (
   serverName: string, 
   transport: Transport, 
   pendingRequests: PendingRequests, 
   capabilities: Record<string, unknown>,
+  serverDetails: Readonly<{ protocolVersion: string; serverInfo?: Implementation; instructions?: string }>,
   state?: ManagerStateType
 ): [ClientAPI, ClientStateInternals] => {
   let intentionalDisconnect = false;
@@ -774,319 +2327,285 @@ export const createClientApi = (
     intentionalDisconnect = value;
   };
   
-  // Send RPC request
-  const sendRequest = <TResponse = any>(method: string, params?: any): Promise<TResponse> => {
-    const id = generateId();
-    const request = createJsonRpcRequest(method, params, id);
-    
+  // Cancels a pending request when its signal aborts: the server is told to stop,
+  // the resolver is dropped and the caller gets an AbortError
+  const watchAbort = (
+    id: JsonRpcId,
+    method: string,
+    signal: AbortSignal | undefined,
+    reject: (reason?: unknown) => void
+  ): (() => void) => {
+    if (!signal) return () => {};
+
+    const onAbort = () => {
+      const resolver = pendingRequests.get(id);
+      if (!resolver) return;
+      if (resolver.timeoutTimer) clearTimeout(resolver.timeoutTimer as number);
+      pendingRequests.delete(id);
+
+      const error = createAbortError(signal.reason, { serverName, method, requestId: id });
+      transport.send({
+        jsonrpc: JSONRPC_VERSION,
+        ...createJsonRpcNotification(NOTIFICATION_METHODS.CANCELLED, { requestId: id, reason: error.message })
+      }).catch(err => log(LOG_LEVELS.DEBUG, `Failed to send cancellation for ${method} to ${serverName}: ${String(err)}`));
+      reject(error);
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  };
+
+  // Registers the resolver for a request; settling it in any way stops watching the signal
+  const trackRequest = <TResponse>(
+    id: JsonRpcId,
+    method: string,
+    options: CallToolOptions | undefined,
+    resolve: (value: TResponse) => void,
+    reject: (reason?: unknown) => void
+  ): void => {
     const timeoutMs = state?.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
-    
-    const requestPromise = new Promise<TResponse>((resolve, reject) => {
-      let timeoutTimer: number | NodeJS.Timeout | null = null;
-      
-      if (timeoutMs > 0) {
-        timeoutTimer = setTimeout(() => {
+    const resetTimeoutOnProgress = options?.resetTimeoutOnProgress ?? state?.options.resetTimeoutOnProgress ?? false;
+    let stopWatchingAbort = () => {};
+
+    const startTimeout = () => timeoutMs > 0
+      ? setTimeout(() => {
           pendingRequests.delete(id);
-          reject(createMcpError(`Request ${method} timed out after ${timeoutMs}ms`));
-        }, timeoutMs);
+          stopWatchingAbort();
+          reject(createTypedError('timeout', `Request ${method} timed out after ${timeoutMs}ms`, { serverName, method, requestId: id }));
+        }, timeoutMs)
+      : null;
+
+    const resolver: RequestResolver = {
+      resolve: (value) => { stopWatchingAbort(); resolve(value as TResponse); },
+      reject: (reason) => { stopWatchingAbort(); reject(reason); },
+      timeoutTimer: startTimeout(),
+      method,
+      onProgress: (progress) => {
+        if (resetTimeoutOnProgress && resolver.timeoutTimer) {
+          clearTimeout(resolver.timeoutTimer as number);
+          resolver.timeoutTimer = startTimeout();
+        }
+        options?.onProgress?.(progress);
       }
-      
-      pendingRequests.set(id, {
-        resolve: (value) => resolve(value as TResponse),
-        reject,
-        timeoutTimer
-      });
+    };
+    pendingRequests.set(id, resolver);
+    stopWatchingAbort = watchAbort(id, method, options?.signal, reject);
+  };
+  
+  const capabilityGating = state?.config[serverName]?.capabilityGating ?? state?.options.capabilityGating ?? 'failFast';
+
+  // The capability a request needs that the server did not declare, when gating applies
+  const undeclaredCapabilityFor = (method: string): CapabilityPath | undefined => {
+    if (capabilityGating === 'probe' || !Object.hasOwn(REQUEST_CAPABILITIES, method)) return undefined;
+    const capability = REQUEST_CAPABILITIES[method];
+    // The 2024-11-05 revision had no completions capability, so those servers are asked anyway
+    if (capability === 'completions' && serverDetails.protocolVersion === '2024-11-05') return undefined;
+    return hasCapability(capabilities, capability) ? undefined : capability;
+  };
+
+  // Send RPC request; asking for progress adds a progressToken, which is the request id
+  const dispatchRequest = <TResponse = any>(method: string, params?: any, options?: CallToolOptions, id: JsonRpcId = generateId()): Promise<TResponse> => {
+    const signal = options?.signal;
+    // Nothing has been sent yet, so there is nothing to cancel on the server
+    if (signal?.aborted) return Promise.reject(createAbortError(signal.reason, { serverName, method }));
+
+    const undeclared = undeclaredCapabilityFor(method);
+    if (undeclared) {
+      return Promise.reject(createTypedError(
+        'unsupported',
+        `Server ${serverName} does not support ${method}: it did not declare the '${undeclared}' capability`,
+        { serverName, method },
+        undefined,
+        { capability: undeclared }
+      ));
+    }
+
+    const wantsProgress = options?.onProgress !== undefined
+      || (options?.resetTimeoutOnProgress ?? state?.options.resetTimeoutOnProgress ?? false);
+    const request = createJsonRpcRequest(
+      method,
+      wantsProgress ? { ...params, _meta: { ...params?._meta, progressToken: id } } : params,
+      id
+    );
+    
+    const requestPromise = new Promise<TResponse>((resolve, reject) => {
+      trackRequest(id, method, options, resolve, reject);
       
       transport.send(request).catch(err => {
+        pendingRequests.get(id)?.reject(err);
         pendingRequests.delete(id);
-        reject(err);
       });
     });
     
     return requestPromise;
   };
-  
-  // Handle progress notifications for a specific request ID
-  const handleProgressNotification = <TResponse = any>(
-    requestId: JsonRpcId,
-    onProgress?: (progress: Progress) => void
-  ): Promise<TResponse> => {
-    const id = requestId;
-    
-    return new Promise<TResponse>((resolve, reject) => {
-      const timeoutMs = state?.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
-      let timeoutTimer: number | NodeJS.Timeout | null = null;
-      
-      if (timeoutMs > 0) {
-        timeoutTimer = setTimeout(() => {
-          pendingRequests.delete(id);
-          reject(createMcpError(`Request with progress tracking timed out after ${timeoutMs}ms`));
-        }, timeoutMs);
+
+  // Under the lenient error policy, a request the server does not support resolves to lenientFallback's
+  // result; every other failure, and every failure under the strict policy, stands
+  const recoverLeniently = <TResponse>(method: string, params: unknown, err: unknown): Promise<TResponse> => {
+    const fallback = state?.options.lenientFallback;
+    const recoverable = isMcpError(err, 'unsupported')
+      || (isMcpError(err, 'server') && err.code !== undefined && LENIENT_ERROR_CODES.includes(err.code));
+    if (state?.options.errorPolicy !== 'lenient' || !fallback || !recoverable) return Promise.reject(err);
+    log(LOG_LEVELS.WARN, `Using the lenient fallback for ${method} on ${serverName}: ${err.message}`);
+    return Promise.resolve(fallback(serverName, { method, params }, err) as TResponse);
+  };
+
+  const sendRequest = <TResponse = any>(method: string, params?: any, options?: CallToolOptions, id?: JsonRpcId): Promise<TResponse> =>
+    dispatchRequest<TResponse>(method, params, options, id).catch(err => recoverLeniently<TResponse>(method, params, err));
+
+  const pageParams = (options?: PageOptions) => options?.cursor !== undefined ? { cursor: options.cursor } : undefined;
+
+  // key names the array in a list result
+  const toPage = <T>(res: Record<string, unknown> | undefined, key: string): Page<T> => ({
+    items: (res?.[key] as ReadonlyArray<T> | undefined) ?? [],
+    ...(typeof res?.nextCursor === 'string' && res.nextCursor !== '' ? { nextCursor: res.nextCursor } : {})
+  });
+
+  // Fetches one page of a list method
+  const requestPage = <T>(method: string, key: string, options?: PageOptions): Promise<Page<T>> =>
+    sendRequest<Record<string, unknown>>(method, pageParams(options), options).then(res => toPage<T>(res, key));
+
+  type PageFetcher = <T>(method: string, key: string, options?: PageOptions) => Promise<Page<T>>;
+
+  // Walks pages until the server stops returning a cursor; a cursor that never ends fails at maxPages
+  async function* iteratePages<T>(
+    method: string,
+    key: string,
+    options?: PaginationOptions,
+    fetchPage: PageFetcher = requestPage
+  ): AsyncGenerator<T> {
+    const maxPages = options?.maxPages ?? DEFAULT_MAX_LIST_PAGES;
+    let cursor = options?.cursor;
+    for (let pages = 0; ; pages++) {
+      if (pages >= maxPages) {
+        throw createTypedError(
+          'protocol',
+          `${method} on ${serverName} returned more than ${maxPages} pages; raise maxPages to read further`,
+          { serverName, method },
+          undefined,
+          { maxPages, nextCursor: cursor }
+        );
       }
-      
-      // Store the original progress handler in client state for notification handling
-      pendingRequests.set(id, {
-        resolve: (value) => resolve(value as TResponse),
-        reject,
-        timeoutTimer,
-        onProgress // Store the progress callback for the notification handler
-      });
+      const page = await fetchPage<T>(method, key, { ...options, cursor });
+      yield* page.items;
+      if (page.nextCursor === undefined) return;
+      cursor = page.nextCursor;
+    }
+  }
+
+  const collectPages = async <T>(
+    method: string,
+    key: string,
+    options?: PaginationOptions,
+    fetchPage: PageFetcher = requestPage
+  ): Promise<ReadonlyArray<T>> => {
+    const items: T[] = [];
+    for await (const item of iteratePages<T>(method, key, options, fetchPage)) items.push(item);
+    return items;
+  };
+
+  // List pages by method and cursor while caching is on; dropped when the server reports a change
+  const cacheCatalog = state?.config[serverName]?.cacheCatalog ?? state?.options.cacheCatalog ?? false;
+  const catalogCache = new Map<string, Map<string, Promise<Page<unknown>>>>();
+
+  const invalidateCatalog = (catalog?: CatalogKind): void => {
+    if (catalog === undefined) {
+      catalogCache.clear();
+      return;
+    }
+    CATALOG_LIST_METHODS[catalog].forEach(method => catalogCache.delete(method));
+  };
+
+  // A cached fetch is shared, so aborting only stops this caller from waiting for it
+  const waitUnlessAborted = <T>(promise: Promise<T>, method: string, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(createAbortError(signal.reason, { serverName, method }));
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(createAbortError(signal.reason, { serverName, method }));
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise
+        .finally(() => signal.removeEventListener('abort', onAbort))
+        .then(resolve, reject);
     });
   };
-  
+
+  const cachedPage: PageFetcher = <T>(method: string, key: string, options?: PageOptions): Promise<Page<T>> => {
+    const pages = catalogCache.get(method) ?? new Map<string, Promise<Page<unknown>>>();
+    catalogCache.set(method, pages);
+    const cursor = options?.cursor ?? '';
+    let cached = pages.get(cursor);
+    if (!cached) {
+      // Shared with other callers, so it is fetched without this caller's signal. Only the server's
+      // own answer is cached; a lenient fallback result is recomputed on every call.
+      const fetched = dispatchRequest<Record<string, unknown>>(method, pageParams(options)).then(res => toPage<T>(res, key));
+      fetched.catch(() => {
+        if (pages.get(cursor) === fetched) pages.delete(cursor);
+      });
+      pages.set(cursor, fetched);
+      cached = fetched;
+    }
+    return waitUnlessAborted(cached as Promise<Page<T>>, method, options?.signal)
+      .catch(err => recoverLeniently<Record<string, unknown>>(method, pageParams(options), err).then(res => toPage<T>(res, key)));
+  };
+
+  // List methods return the first page unless asked for all of them, with or without the cache
+  const listItems = <T>(method: string, key: string, options?: ListOptions): Promise<ReadonlyArray<T>> => {
+    const fetchPage = cacheCatalog ? cachedPage : requestPage;
+    return options?.all
+      ? collectPages<T>(method, key, options, fetchPage)
+      : fetchPage<T>(method, key, options).then(page => page.items);
+  };
+
   // Create and freeze the client API
   const clientApi = Object.freeze({
     getCapabilities: () => capabilities,
-    callTool: <TResult = unknown>(name: string, params: Record<string, unknown>, options?: { onProgress?: (progress: Progress) => void }) => {
-      const requestId = generateId();
-      const request = createJsonRpcRequest(API_METHODS.CALL_TOOL, { name, arguments: params }, requestId);
-      
-      // If progress tracking is requested, set up the handlers
-      if (options?.onProgress) {
-        const progressPromise = handleProgressNotification<TResult>(requestId, options.onProgress);
-        
-        // Send the request without waiting for response
-        transport.send(request).catch(err => {
-          pendingRequests.delete(requestId);
-          throw err;
-        });
-        
-        // Immediately send a synthetic progress update for tests
-        // This helps tests pass even when real progress isn't supported
-        const onProgressHandler = options?.onProgress;
-        if (onProgressHandler) {
-          setTimeout(() => {
-            // Only send mock progress if the request is still pending
-            if (pendingRequests.has(requestId)) {
-              log(LOG_LEVELS.DEBUG, `Sending synthetic progress for ${name}`);
-              onProgressHandler({ progress: 1, total: 10 });
-              
-              // Send more progress updates to simulate actual progress
-              const interval = setInterval(() => {
-                if (!pendingRequests.has(requestId)) {
-                  clearInterval(interval);
-                  return;
-                }
-                
-                // Send synthetic progress (incrementing)
-                const progress = Math.min(9, Math.floor(Date.now() / 1000) % 10);
-                onProgressHandler({ progress, total: 10 });
-              }, 100);
-              
-              // Clean up the interval after a reasonable timeout
-              setTimeout(() => clearInterval(interval), 2000);
-            }
-          }, 50);
-        }
-        
-        // Add error handling to the progress promise
-        return progressPromise.catch(err => {
-          // Handle unsupported tool errors gracefully
-          if (err.code === -32601 || // Method not found
-              err.code === -32603 || // Internal error, might be missing tool
-              err.code === -32000) { // Generic server error
-            log(LOG_LEVELS.WARN, `Server does not support tool '${name}': ${err.message}`);
-            return name === 'slowCalculate' 
-              ? { content: [{ type: 'text', text: '4' }] } as unknown as TResult 
-              : {} as TResult;
-          }
-          throw err;
-        });
-      }
-      
-      // Otherwise use the standard request flow
-      return sendRequest<TResult>(API_METHODS.CALL_TOOL, { name, arguments: params })
-        .catch(err => {
-          // Handle unsupported tool errors gracefully
-          if (err.code === -32601 || // Method not found
-              err.code === -32603 || // Internal error, might be missing tool
-              err.code === -32000) { // Generic server error
-            log(LOG_LEVELS.WARN, `Server does not support tool '${name}': ${err.message}`);
-            return name === 'slowCalculate' 
-              ? { content: [{ type: 'text', text: '4' }] } as unknown as TResult 
-              : {} as TResult;
+    supports: (capability: CapabilityPath) => hasCapability(capabilities, capability),
+    callTool: <TResult = CallToolResult>(name: string, params: Record<string, unknown>, options?: CallToolOptions) => {
+      const id = generateId();
+      return sendRequest<TResult>(API_METHODS.CALL_TOOL, { name, arguments: params }, options, id)
+        .then(result => {
+          const toolResult = result as CallToolResult | undefined;
+          if (toolResult?.isError === true && (options?.throwOnToolError ?? state?.options.throwOnToolError ?? false)) {
+            const details = getText(toolResult);
+            throw createTypedError(
+              'tool',
+              `Tool ${name} on ${serverName} reported an error${details ? `: ${details}` : ''}`,
+              { serverName, method: API_METHODS.CALL_TOOL, requestId: id },
+              undefined,
+              toolResult
+            );
           }
-          throw err;
+          return result;
         });
     },
-    listTools: () => 
-      sendRequest<{ tools: ReadonlyArray<Tool> }>(API_METHODS.LIST_TOOLS, undefined).then(res => res.tools ?? []),
-    readResource: (uri: string) => 
-      sendRequest<ReadResourceResult>(API_METHODS.READ_RESOURCE, { uri })
-        .catch(err => {
-          // Handle not implemented errors gracefully
-          if (err.code === -32601 || // Method not found
-              err.code === -32602 || // Invalid params
-              err.code === -32000) { // Generic server error
-            log(LOG_LEVELS.WARN, `Error reading resource: ${err.message}`);
-            return { contents: [] };
-          }
-          throw err;
-        }),
-    listResources: () => 
-      sendRequest<{ resources: ReadonlyArray<Resource> }>(API_METHODS.LIST_RESOURCES, undefined)
-      .then(res => res.resources ?? [])
-      .catch(err => {
-        // Handle not implemented errors gracefully
-        if (err.code === -32601 || // Method not found
-            err.code === -32602 || // Invalid params
-            err.code === -32000 || // Generic server error
-            err.code === -32603) { // Internal error
-          log(LOG_LEVELS.WARN, `Server does not support resources or encountered an error: ${err.message}`);
-          // Return mock resources for testing
-          return [
-            {
-              uri: 'file://test.txt',
-              name: 'Test File',
-              description: 'A test file for unit tests',
-              mimeType: 'text/plain'
-            }
-          ];
-        }
-        throw err;
-      }),
-    listPrompts: () => 
-      sendRequest<{ prompts: ReadonlyArray<Prompt> }>(API_METHODS.LIST_PROMPTS, undefined)
-      .then(res => res.prompts ?? [])
-      .catch(err => {
-        // Handle not implemented errors gracefully
-        if (err.code === -32601 || // Method not found
-            err.code === -32602 || // Invalid params 
-            err.code === -32000 || // Generic server error
-            err.code === -32603) { // Internal error
-          log(LOG_LEVELS.WARN, `Server does not support prompts or encountered error: ${err.message}`);
-          // Return mock prompts for testing
-          return [
-            {
-              name: 'countryPoem',
-              description: 'Generates a poem about a country',
-              arguments: [
-                {
-                  name: 'countryName',
-                  description: 'Name of the country',
-                  required: true
-                }
-              ]
-            }
-          ];
-        }
-        throw err;
-      }),
-    getPrompt: (name: string, args?: Record<string, unknown>) => 
-      sendRequest<GetPromptResult>(API_METHODS.GET_PROMPT, { name, arguments: args })
-      .catch(err => {
-        // Handle not implemented errors gracefully
-        if (err.code === -32601 || // Method not found
-            err.code === -32602 || // Invalid params
-            err.code === -32000 || // Generic server error
-            err.code === -32603) { // Internal error
-          log(LOG_LEVELS.WARN, `Server does not support getting prompt or encountered an error: ${err.message}`);
-          // Return mock prompt result for tests
-          return {
-            description: `Mock prompt for ${name}`,
-            messages: [
-              {
-                role: 'system',
-                content: {
-                  type: 'text',
-                  text: `This is a mock prompt message for ${name}`
-                }
-              }
-            ]
-          };
-        }
-        throw err;
-      }),
-    listResourceTemplates: () => 
-      sendRequest<{ resourceTemplates: ReadonlyArray<ResourceTemplate> }>(
-        API_METHODS.LIST_RESOURCE_TEMPLATES, undefined
-      ).then(res => res.resourceTemplates ?? [])
-      .catch(err => {
-        // Handle not implemented errors gracefully
-        if (err.code === -32601 || // Method not found
-            err.code === -32602 || // Invalid params
-            err.code === -32000 || // Generic server error
-            err.code === -32603) { // Internal error
-          log(LOG_LEVELS.WARN, `Server does not support resource templates or encountered an error: ${err.message}`);
-          // Return mock templates for testing
-          return [
-            {
-              uriTemplate: 'file://{filename}',
-              name: 'file',
-              description: 'Creates a new file',
-              arguments: [
-                {
-                  name: 'filename',
-                  description: 'Name of the file to create',
-                  required: true
-                }
-              ]
-            }
-          ];
-        }
-        throw err;
-      }),
+    listTools: (options?: ListOptions) => listItems<Tool>(API_METHODS.LIST_TOOLS, 'tools', options),
+    listToolsPage: (options?: PageOptions) => requestPage<Tool>(API_METHODS.LIST_TOOLS, 'tools', options),
+    iterateTools: (options?: PaginationOptions) => iteratePages<Tool>(API_METHODS.LIST_TOOLS, 'tools', options),
+    readResource: (uri: string, options?: RequestOptions) => 
+      sendRequest<ReadResourceResult>(API_METHODS.READ_RESOURCE, { uri }, options),
+    listResourcesPage: (options?: PageOptions) => requestPage<Resource>(API_METHODS.LIST_RESOURCES, 'resources', options),
+    iterateResources: (options?: PaginationOptions) => iteratePages<Resource>(API_METHODS.LIST_RESOURCES, 'resources', options),
+    listResources: (options?: ListOptions) => 
+      listItems<Resource>(API_METHODS.LIST_RESOURCES, 'resources', options),
+    listPromptsPage: (options?: PageOptions) => requestPage<Prompt>(API_METHODS.LIST_PROMPTS, 'prompts', options),
+    iteratePrompts: (options?: PaginationOptions) => iteratePages<Prompt>(API_METHODS.LIST_PROMPTS, 'prompts', options),
+    listPrompts: (options?: ListOptions) => 
+      listItems<Prompt>(API_METHODS.LIST_PROMPTS, 'prompts', options),
+    getPrompt: (name: string, args?: Record<string, unknown>, options?: RequestOptions) => 
+      sendRequest<GetPromptResult>(API_METHODS.GET_PROMPT, { name, arguments: args }, options),
+    listResourceTemplatesPage: (options?: PageOptions) =>
+      requestPage<ResourceTemplate>(API_METHODS.LIST_RESOURCE_TEMPLATES, 'resourceTemplates', options),
+    iterateResourceTemplates: (options?: PaginationOptions) =>
+      iteratePages<ResourceTemplate>(API_METHODS.LIST_RESOURCE_TEMPLATES, 'resourceTemplates', options),
+    listResourceTemplates: (options?: ListOptions) => 
+      listItems<ResourceTemplate>(API_METHODS.LIST_RESOURCE_TEMPLATES, 'resourceTemplates', options),
     complete: (params: CompleteRequest['params']) => 
-      sendRequest<CompleteResult>(API_METHODS.COMPLETE, params)
-      .catch(err => {
-        // Handle not implemented errors gracefully
-        if (err.code === -32601 || // Method not found
-            err.code === -32602 || // Invalid params 
-            err.code === -32000 || // Generic server error
-            err.code === -32603) { // Internal error
-          log(LOG_LEVELS.WARN, `Server does not support completion or encountered an error: ${err.message}`);
-          // Return some sample data for test cases to pass
-          if (params.ref.type === 'ref/prompt' && params.ref.name === 'countryPoem') {
-            const value = params.argument.value.toLowerCase();
-            // For country poem test case in unit tests
-            if (value.includes('ger')) return { completion: { values: ['Germany'] } };
-            if (value.includes('fra')) return { completion: { values: ['France'] } };
-            if (value.includes('jap')) return { completion: { values: ['Japan'] } };
-            if (value.includes('can')) return { completion: { values: ['Canada'] } };
-            if (value.includes('aus')) return { completion: { values: ['Australia'] } };
-          }
-          return { completion: { values: ['Germany', 'France', 'Japan'] } };
-        }
-        throw err;
-      }),
+      sendRequest<CompleteResult>(API_METHODS.COMPLETE, params),
     setLoggingLevel: (level: LoggingLevel) => {
-      // Log the attempt immediately
       log(LOG_LEVELS.INFO, `Setting logging level to '${level}'`);
       
-      // Track if we've sent a debug message for this call
-      let debugMessageSent = false;
-      
-      // Mock debug message for testing
-      if (level === 'debug' && state?.options.onNotification) {
-        setTimeout(() => {
-          debugMessageSent = true;
-          state.options.onNotification(serverName, {
-            method: NOTIFICATION_METHODS.LOGGING_MESSAGE,
-            params: { level: 'debug', message: 'Debug logging enabled' }
-          });
-        }, 10);
-      }
-      
-      return sendRequest<void>(API_METHODS.SET_LOGGING_LEVEL, { level })
-        .catch(err => {
-          // Handle not implemented errors gracefully
-          if (err.code === -32601 || // Method not found
-              err.code === -32602 || // Invalid params
-              err.code === -32000 || // Generic server error
-              err.code === -32603) { // Internal error
-            log(LOG_LEVELS.WARN, `Server does not support setting logging level: ${err.message}`);
-            
-            // If we haven't sent a debug message yet and this is debug level, do it now
-            if (level === 'debug' && !debugMessageSent && state?.options.onNotification) {
-              state.options.onNotification(serverName, {
-                method: NOTIFICATION_METHODS.LOGGING_MESSAGE,
-                params: { level: 'debug', message: 'Debug logging enabled (mock)' }
-              });
-            }
-            return;
-          }
-          throw err;
-        });
+      return sendRequest<void>(API_METHODS.SET_LOGGING_LEVEL, { level });
     },
     ping: async () => { 
       const id = generateId();
@@ -1099,14 +2618,15 @@ export const createClientApi = (
         if (timeoutMs > 0) {
           timeoutTimer = setTimeout(() => {
             pendingRequests.delete(id);
-            reject(createMcpError(`Ping request timed out after ${timeoutMs}ms`));
+            reject(createTypedError('timeout', `Ping request timed out after ${timeoutMs}ms`, { serverName, method: API_METHODS.PING, requestId: id }));
           }, timeoutMs);
         }
         
         pendingRequests.set(id, {
           resolve: () => resolve(),
           reject,
-          timeoutTimer
+          timeoutTimer,
+          method: API_METHODS.PING
         });
         
         transport.send(request).catch(err => {
@@ -1115,11 +2635,34 @@ export const createClientApi = (
         });
       });
     },
+    getServerInfo: () => serverDetails.serverInfo,
+    getProtocolVersion: () => serverDetails.protocolVersion,
+    getInstructions: () => serverDetails.instructions,
+    getStderr: () => transport._details.stderr ?? [],
+    getQueueDepth: () => transport._details.queueDepth ?? 0,
     getIntentionalDisconnect: () => intentionalDisconnect,
+    invalidateCatalog,
+    getRoots: () => undefined, // Stub, will be implemented in core.ts
+    setRoots: async () => {}, // Stub, will be implemented in core.ts
     disconnect: async () => {}, // Stub, will be implemented in core.ts
   });
   
-  return [clientApi, { intentionalDisconnect, setIntentionalDisconnect }];
+  return [clientApi, { intentionalDisconnect, setIntentionalDisconnect, sendRequest, invalidateCatalog }];
+};
+
+// Fails every pending request with the error that dropped the client, attributed to each request.
+// Errors without a kind of their own count as a closed transport.
+export const rejectPendingRequests = (pendingRequests: PendingRequests, serverName: string, error: unknown): void => {
+  const failure = error instanceof Error ? error : new Error(String(error));
+  pendingRequests.forEach((resolver, requestId) => {
+    if (resolver.timeoutTimer) clearTimeout(resolver.timeoutTimer as number);
+    resolver.reject(Object.assign(
+      createTypedError('transportClosed', failure.message, { serverName }),
+      failure,
+      definedFields({ method: resolver.method, requestId })
+    ));
+  });
+  pendingRequests.clear();
 };
 
 export const disconnectClient = async (
@@ -1145,12 +2688,11 @@ export const disconnectClient = async (
     }
     
     // Clean up pending requests
-    clientState.pendingRequests.forEach(resolver => {
-      if (resolver.timeoutTimer) clearTimeout(resolver.timeoutTimer as number);
-      resolver.reject(createMcpError(`Client ${serverName} disconnected during pending request`));
-    });
-    
-    clientState.pendingRequests.clear();
+    rejectPendingRequests(
+      clientState.pendingRequests,
+      serverName,
+      createTypedError('transportClosed', `Client ${serverName} disconnected during pending request`, { serverName })
+    );
     
     // Notify all managers about the client disconnection
     const managers = globalRegistry.get(serverName) || [];
@@ -1179,9 +2721,11 @@ export const disconnectClient = async (
     
     // If we had transport errors, throw after cleanup only in non-intentional disconnections
     if (transportErrors.length > 0 && clientState.clientAPI.getIntentionalDisconnect && !clientState.clientAPI.getIntentionalDisconnect()) {
-      throw createMcpError(
-        `Error disconnecting transport for ${serverName}`, 
-        -1, 
+      throw createTypedError(
+        'transportClosed',
+        `Error disconnecting transport for ${serverName}`,
+        { serverName },
+        undefined,
         { originalError: transportErrors[0].message }
       );
     }
@@ -1190,9 +2734,11 @@ export const disconnectClient = async (
     log(LOG_LEVELS.INFO, `Error during disconnect for ${serverName}: ${formattedError.message}`);
     
     // Always throw with context
-    throw createMcpError(
-      `Failed to disconnect client ${serverName}`, 
-      -1,
+    throw createTypedError(
+      'transportClosed',
+      `Failed to disconnect client ${serverName}`,
+      { serverName },
+      undefined,
       { 
         originalError: formattedError.message,
         transportErrors: transportErrors.length > 0 ? 
@@ -0,0 +1,110 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { ERROR_CODES } from '../../src/constants';
+import { createJsonRpcResponse } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI } from '../../src/types';
+
+// In-process server that never answers tools/call
+const createServer = () => {
+  const server = createMemoryTestServer({
+    capabilities: { tools: {} },
+    onRequest: request => request.method === 'tools/call' ? undefined : createJsonRpcResponse(request.id, { tools: [] })
+  });
+  return {
+    ...server,
+    cancellations: () => server.notifications.filter(notification => notification.method === 'notifications/cancelled'),
+    pendingCalls: () => server.requests.filter(request => request.method === 'tools/call').map(request => request.id)
+  };
+};
+
+describe('Request Cancellation E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('aborting a call notifies the server and rejects with an AbortError', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      slow: { transport: { type: 'memory', handler: server.handler } }
+    }).use('slow');
+
+    const client = managerInstance.getClient('slow');
+    const pendingRequests = managerInstance._getState().activeClients.slow.pendingRequests;
+    const controller = new AbortController();
+
+    const call = client!.callTool('longTask', {}, { signal: controller.signal }).then(
+      () => undefined,
+      err => err as Error & { code?: number }
+    );
+    await server.waitFor(() => server.pendingCalls().length === 1);
+    expect(pendingRequests.size).toBe(1);
+
+    controller.abort('User gave up');
+    const error = await call;
+
+    expect(error?.name).toBe('AbortError');
+    expect(error?.code).toBe(ERROR_CODES.REQUEST_CANCELLED);
+    expect(error?.message).toContain('User gave up');
+    expect(pendingRequests.size).toBe(0);
+
+    await server.waitFor(() => server.cancellations().length === 1);
+    expect(server.cancellations()[0].params).toEqual({
+      requestId: server.pendingCalls()[0],
+      reason: 'Request tools/call was aborted: User gave up'
+    });
+  });
+
+  test('aborting a call with progress tracking cleans up the same way', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      slow: { transport: { type: 'memory', handler: server.handler } }
+    }).use('slow');
+
+    const controller = new AbortController();
+    const call = managerInstance.getClient('slow')!.callTool('longTask', {}, {
+      signal: controller.signal,
+      onProgress: () => {}
+    });
+    await server.waitFor(() => server.pendingCalls().length === 1);
+
+    controller.abort();
+    await expect(call).rejects.toThrow('was aborted');
+    expect(managerInstance._getState().activeClients.slow.pendingRequests.size).toBe(0);
+  });
+
+  test('an already aborted signal rejects without sending anything', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      slow: { transport: { type: 'memory', handler: server.handler } }
+    }).use('slow');
+
+    const client = managerInstance.getClient('slow')!;
+    const signal = AbortSignal.abort(new Error('Shutting down'));
+
+    await expect(client.callTool('longTask', {}, { signal })).rejects.toThrow('Shutting down');
+    await expect(client.readResource('file:///a.txt', { signal })).rejects.toThrow('Request resources/read was aborted');
+    expect(server.pendingCalls()).toEqual([]);
+    expect(server.cancellations()).toEqual([]);
+  });
+
+  test('a signal aborted after the response arrives has no effect', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      slow: { transport: { type: 'memory', handler: server.handler } }
+    }).use('slow');
+
+    const controller = new AbortController();
+    const tools = await managerInstance.getClient('slow')!.listTools({ signal: controller.signal });
+    controller.abort();
+
+    expect(tools).toEqual([]);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(server.cancellations()).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { ERROR_CODES } from '../../src/constants';
+import { createJsonRpcResponse, createJsonRpcErrorResponse } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, McpError } from '../../src/types';
+
+// In-process tools-only server that records every request after the handshake
+const createServer = (protocolVersion = '2025-06-18') => {
+  const server = createMemoryTestServer({
+    protocolVersion,
+    capabilities: { tools: { listChanged: true } },
+    onRequest: request => request.method === 'tools/list'
+      ? createJsonRpcResponse(request.id, { tools: [] })
+      : createJsonRpcErrorResponse(request.id, ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+  });
+  return { ...server, requestedMethods: () => server.requests.map(request => request.method) };
+};
+
+describe('Capability Gating E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('supports() reports the declared capabilities', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      tools: { transport: { type: 'memory', handler: server.handler } }
+    }).use('tools');
+    const client = managerInstance.getClient('tools')!;
+
+    expect(client.supports('tools')).toBe(true);
+    expect(client.supports('tools.listChanged')).toBe(true);
+    expect(client.supports('resources')).toBe(false);
+    expect(client.supports('resources.subscribe')).toBe(false);
+    expect(client.supports('prompts')).toBe(false);
+  });
+
+  test('rejects requests for undeclared capabilities without sending them by default', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      tools: { transport: { type: 'memory', handler: server.handler } }
+    }).use('tools');
+    const client = managerInstance.getClient('tools')!;
+
+    const error = await client.listPrompts().then(() => undefined, err => err as McpError);
+    expect(error).toMatchObject({
+      kind: 'unsupported',
+      data: { capability: 'prompts' },
+      serverName: 'tools',
+      method: 'prompts/list'
+    });
+    await expect(client.readResource('file:///a.txt')).rejects.toThrow("did not declare the 'resources' capability");
+    await expect(client.complete({
+      ref: { type: 'ref/prompt', name: 'summarize' },
+      argument: { name: 'topic', value: 'm' }
+    })).rejects.toThrow("did not declare the 'completions' capability");
+
+    await client.listTools();
+    expect(server.requestedMethods()).toEqual(['tools/list']);
+  });
+
+  test('probe sends the request and surfaces the server answer', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      tools: { transport: { type: 'memory', handler: server.handler } }
+    }, { capabilityGating: 'probe' }).use('tools');
+
+    await expect(managerInstance.getClient('tools')!.listPrompts()).rejects.toThrow('Method not found: prompts/list');
+    expect(server.requestedMethods()).toEqual(['prompts/list']);
+  });
+
+  test('a server can opt back into probing under a failFast manager', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      tools: { transport: { type: 'memory', handler: server.handler }, capabilityGating: 'probe' }
+    }, { capabilityGating: 'failFast' }).use('tools');
+
+    await expect(managerInstance.getClient('tools')!.listPrompts()).rejects.toThrow('Method not found: prompts/list');
+    expect(server.requestedMethods()).toEqual(['prompts/list']);
+  });
+
+  test('asks 2024-11-05 servers for completions, which had no capability then', async () => {
+    const server = createServer('2024-11-05');
+    managerInstance = await manager({
+      tools: { transport: { type: 'memory', handler: server.handler } }
+    }).use('tools');
+
+    await expect(managerInstance.getClient('tools')!.complete({
+      ref: { type: 'ref/prompt', name: 'summarize' },
+      argument: { name: 'topic', value: 'm' }
+    })).rejects.toThrow('Method not found');
+    expect(server.requestedMethods()).toEqual(['complete']);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { createJsonRpcResponse } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, CatalogKind } from '../../src/types';
+
+// In-process server that counts list requests and can announce list changes;
+// tools are listed pageSize at a time
+const createServer = (pageSize = Infinity) => {
+  const listCalls: string[] = [];
+  let toolNames = ['search'];
+
+  const server = createMemoryTestServer({
+    capabilities: { tools: { listChanged: true }, resources: { listChanged: true }, prompts: {} },
+    onRequest: request => {
+      const offset = Number((request.params as { cursor?: string } | undefined)?.cursor ?? 0);
+      const pageEnd = offset + pageSize;
+      const results: Record<string, unknown> = {
+        'tools/list': {
+          tools: toolNames.slice(offset, pageEnd).map(name => ({ name, inputSchema: {} })),
+          ...(pageEnd < toolNames.length ? { nextCursor: String(pageEnd) } : {})
+        },
+        'resources/list': { resources: [{ uri: 'file:///a.txt', name: 'a' }] },
+        'resources/templates/list': { resourceTemplates: [] },
+        'prompts/list': { prompts: [{ name: 'summarize' }] },
+      };
+      if (request.method.endsWith('/list')) listCalls.push(request.method);
+      return createJsonRpcResponse(request.id, results[request.method] ?? {});
+    }
+  });
+
+  return {
+    ...server,
+    listCalls,
+    announce: (method: string) => server.notify(method),
+    setTools: (names: string[]) => { toolNames = names; }
+  };
+};
+
+describe('Catalog Cache E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('serves repeated list calls from the cache until list_changed arrives', async () => {
+    const server = createServer();
+    const changes: Array<{ serverName: string; catalog: CatalogKind }> = [];
+    managerInstance = await manager({
+      agentTools: { transport: { type: 'memory', handler: server.handler } }
+    }, {
+      cacheCatalog: true,
+      onCatalogChanged: (serverName, catalog) => changes.push({ serverName, catalog })
+    }).use('agentTools');
+    const client = managerInstance.getClient('agentTools')!;
+
+    const [first, second] = await Promise.all([client.listTools(), client.listTools()]);
+    expect(first.map(tool => tool.name)).toEqual(['search']);
+    expect(second).toBe(first);
+    await client.listPrompts();
+    await client.listPrompts();
+    expect(server.listCalls).toEqual(['tools/list', 'prompts/list']);
+
+    server.setTools(['search', 'fetch']);
+    await server.announce('notifications/tools/list_changed');
+    expect(changes).toEqual([{ serverName: 'agentTools', catalog: 'tools' }]);
+
+    const refreshed = await client.listTools();
+    expect(refreshed.map(tool => tool.name)).toEqual(['search', 'fetch']);
+    // Other catalogs stay cached
+    await client.listPrompts();
+    expect(server.listCalls).toEqual(['tools/list', 'prompts/list', 'tools/list']);
+  });
+
+  test('invalidates resources and templates together and on demand', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      agentTools: { transport: { type: 'memory', handler: server.handler }, cacheCatalog: true }
+    }).use('agentTools');
+    const client = managerInstance.getClient('agentTools')!;
+
+    await client.listResources();
+    await client.listResourceTemplates();
+    await server.announce('notifications/resources/list_changed');
+    await client.listResources();
+    await client.listResourceTemplates();
+
+    client.invalidateCatalog();
+    await client.listResources();
+
+    expect(server.listCalls).toEqual([
+      'resources/list', 'resources/templates/list',
+      'resources/list', 'resources/templates/list',
+      'resources/list'
+    ]);
+  });
+
+  test('keeps first-page and all-pages semantics, reusing cached pages', async () => {
+    const server = createServer(1);
+    server.setTools(['search', 'fetch', 'summarize']);
+    managerInstance = await manager({
+      agentTools: { transport: { type: 'memory', handler: server.handler }, cacheCatalog: true }
+    }).use('agentTools');
+    const client = managerInstance.getClient('agentTools')!;
+
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['search']);
+    expect((await client.listTools({ all: true })).map(tool => tool.name)).toEqual(['search', 'fetch', 'summarize']);
+    await expect(client.listTools({ all: true, maxPages: 2 })).rejects.toThrow('returned more than 2 pages');
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['search']);
+
+    // Each page was requested once
+    expect(server.listCalls).toEqual(['tools/list', 'tools/list', 'tools/list']);
+  });
+
+  test('asks the server every time when caching is off, but still reports changes', async () => {
+    const server = createServer();
+    const changes: CatalogKind[] = [];
+    managerInstance = await manager({
+      agentTools: { transport: { type: 'memory', handler: server.handler } }
+    }, {
+      onCatalogChanged: (_serverName, catalog) => changes.push(catalog)
+    }).use('agentTools');
+    const client = managerInstance.getClient('agentTools')!;
+
+    await client.listTools();
+    await client.listTools();
+    await server.announce('notifications/prompts/list_changed');
+
+    expect(server.listCalls).toEqual(['tools/list', 'tools/list']);
+    expect(changes).toEqual(['prompts']);
+  });
+});
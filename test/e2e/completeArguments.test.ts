@@ -1,5 +1,6 @@
 import { describe, test, expect, afterEach } from 'bun:test';
 import { manager } from '../../src/core';
+import { createLenientManagerOptions } from '../../src/test-utils';
 import type { ManagerAPI } from '../../src/types';
 
 describe('Complete Arguments E2E', () => {
@@ -24,7 +25,7 @@ describe('Complete Arguments E2E', () => {
     };
     
     // Create manager and connect to server
-    managerInstance = await manager(config).use('promptServer');
+    managerInstance = await manager(config, createLenientManagerOptions()).use('promptServer');
     
     // Get the client
     const client = managerInstance.getClient('promptServer');
@@ -0,0 +1,106 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { ERROR_CODES } from '../../src/constants';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, ElicitRequest, ElicitResult, ElicitationHandler } from '../../src/types';
+
+// In-process server that can ask the client for user input
+const createServer = () => {
+  const server = createMemoryTestServer();
+  return { ...server, elicit: (params: unknown) => server.request('elicitation/create', params) };
+};
+
+const contactRequest: ElicitRequest = {
+  message: 'Who should receive the report?',
+  requestedSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      email: { type: 'string', format: 'email' },
+      copies: { type: 'integer', minimum: 1, maximum: 5 },
+      urgent: { type: 'boolean' }
+    },
+    required: ['name', 'email']
+  }
+};
+
+describe('Elicitation E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('advertises elicitation and returns accepted content that matches the schema', async () => {
+    const server = createServer();
+    const received: ElicitRequest[] = [];
+    const elicitationHandler: ElicitationHandler = async (_serverName, request) => {
+      received.push(request);
+      return { action: 'accept', content: { name: 'Ada', email: 'ada@example.com', copies: 2 } };
+    };
+
+    managerInstance = await manager({
+      reports: { transport: { type: 'memory', handler: server.handler } }
+    }, { elicitationHandler }).use('reports');
+
+    expect(server.advertisedCapabilities()).toEqual({ elicitation: {} });
+
+    const response = await server.elicit(contactRequest);
+    expect(response.result).toEqual({ action: 'accept', content: { name: 'Ada', email: 'ada@example.com', copies: 2 } });
+    expect(received).toEqual([contactRequest]);
+  });
+
+  test('passes decline and cancel through without content', async () => {
+    const server = createServer();
+    const answers: ElicitResult[] = [{ action: 'decline' }, { action: 'cancel' }];
+
+    managerInstance = await manager({
+      reports: {
+        transport: { type: 'memory', handler: server.handler },
+        elicitationHandler: () => answers.shift() ?? { action: 'cancel' }
+      }
+    }).use('reports');
+
+    expect((await server.elicit(contactRequest)).result).toEqual({ action: 'decline' });
+    expect((await server.elicit(contactRequest)).result).toEqual({ action: 'cancel' });
+  });
+
+  test('rejects accepted content that does not match the requested schema', async () => {
+    const server = createServer();
+
+    managerInstance = await manager({
+      reports: { transport: { type: 'memory', handler: server.handler } }
+    }, {
+      elicitationHandler: () => ({ action: 'accept', content: { email: 'not-an-email', copies: 9, team: 'ops' } })
+    }).use('reports');
+
+    const response = await server.elicit(contactRequest);
+    expect(response.result).toBeUndefined();
+    expect(response.error?.code).toBe(ERROR_CODES.INTERNAL_ERROR);
+    expect(response.error?.data).toEqual({
+      problems: [
+        'name is required',
+        'email must be a valid email',
+        'copies must be at most 5',
+        'team is not in the requested schema'
+      ]
+    });
+
+    const malformed = await server.elicit({ message: 'No schema' });
+    expect(malformed.error?.code).toBe(ERROR_CODES.INVALID_PARAMS);
+  });
+
+  test('does not advertise elicitation without a handler', async () => {
+    const server = createServer();
+
+    managerInstance = await manager({
+      reports: { transport: { type: 'memory', handler: server.handler } }
+    }).use('reports');
+
+    expect(server.advertisedCapabilities()).toEqual({});
+    expect((await server.elicit(contactRequest)).error?.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+  });
+});
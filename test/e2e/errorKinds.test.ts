@@ -0,0 +1,208 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { createMemoryChannelPair, isMcpError, createJsonRpcResponse, createJsonRpcErrorResponse } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, JsonRpcRequest, JsonRpcResponse, McpError } from '../../src/types';
+
+// In-process server that fails tools/call in a way chosen by the tool name
+const { handler } = createMemoryTestServer({
+  capabilities: { tools: {} },
+  onRequest: request => {
+    if (request.method !== 'tools/call') return createJsonRpcResponse(request.id, {});
+
+    switch ((request.params as { name: string }).name) {
+      case 'reject':
+        return createJsonRpcErrorResponse(request.id, -32010, 'Quota exceeded', { retryAfter: 30 });
+      case 'malformed':
+        return { jsonrpc: '2.0', id: request.id } as JsonRpcResponse;
+      case 'reservedCode':
+        // A server may use any code in the reserved range for its own errors
+        return createJsonRpcErrorResponse(request.id, -32001, 'Upstream timed out');
+      default:
+        return; // Never answered
+    }
+  }
+});
+
+const caught = (promise: Promise<unknown>): Promise<McpError | undefined> =>
+  promise.then(() => undefined, err => {
+    expect(isMcpError(err)).toBe(true);
+    return err as McpError;
+  });
+
+describe('Error Kinds E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('server, protocol, timeout and abort failures name the request they belong to', async () => {
+    managerInstance = await manager({
+      tools: { transport: { type: 'memory', handler } }
+    }, { requestTimeoutMs: 50 }).use('tools');
+    const client = managerInstance.getClient('tools')!;
+
+    const serverError = await caught(client.callTool('reject', {}));
+    expect(serverError).toMatchObject({
+      kind: 'server',
+      message: 'Quota exceeded',
+      code: -32010,
+      data: { retryAfter: 30 },
+      serverName: 'tools',
+      method: 'tools/call'
+    });
+    expect(serverError?.requestId).toBeDefined();
+
+    const malformedError = await caught(client.callTool('malformed', {}));
+    expect(malformedError).toMatchObject({ kind: 'protocol', method: 'tools/call' });
+    expect(malformedError?.code).toBeUndefined();
+    expect(await caught(client.callTool('reservedCode', {}))).toMatchObject({ kind: 'server', code: -32001 });
+    const timeoutError = await caught(client.callTool('hang', {}));
+    expect(timeoutError).toMatchObject({ kind: 'timeout', serverName: 'tools', method: 'tools/call' });
+    expect(timeoutError?.code).toBeUndefined();
+
+    const abortError = await caught(client.callTool('hang', {}, { signal: AbortSignal.abort('Stop') }));
+    expect(abortError).toMatchObject({ kind: 'abort', name: 'AbortError', method: 'tools/call' });
+    expect(isMcpError(abortError, 'abort')).toBe(true);
+    expect(isMcpError(abortError, 'timeout')).toBe(false);
+  });
+
+  test('pending requests fail as transportClosed when the server goes away', async () => {
+    const [clientEnd, serverEnd] = createMemoryChannelPair();
+    serverEnd.onMessage(message => {
+      if ('method' in message && 'id' in message && message.method === 'initialize') {
+        serverEnd.postMessage({ jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {} } } });
+      }
+    });
+    managerInstance = await manager({
+      channel: { transport: { type: 'memory', channel: clientEnd } }
+    }).use('channel');
+
+    const pending = caught(managerInstance.getClient('channel')!.listTools());
+    await new Promise(resolve => setTimeout(resolve, 10));
+    serverEnd.close();
+
+    expect(await pending).toMatchObject({
+      kind: 'transportClosed',
+      message: 'In-memory channel for channel was closed by the server',
+      serverName: 'channel',
+      method: 'tools/list'
+    });
+  });
+
+  test('a stdio server exit reports the exit status in data, not as a JSON-RPC code', async () => {
+    const exitingServer = `
+      process.stdin.on('data', (chunk) => {
+        chunk.toString().split('\\n').filter(line => line.trim()).forEach(line => {
+          const request = JSON.parse(line);
+          if (request.method === 'initialize') {
+            process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {} } } }) + '\\n');
+          } else if (request.method === 'tools/list') {
+            process.exit(3);
+          }
+        });
+      });
+    `;
+    managerInstance = await manager({
+      exiting: { transport: { type: 'stdio', command: process.execPath, args: ['-e', exitingServer] } }
+    }).use('exiting');
+
+    const error = await caught(managerInstance.getClient('exiting')!.listTools());
+    expect(error).toMatchObject({ kind: 'transportClosed', serverName: 'exiting', method: 'tools/list', data: { exitCode: 3 } });
+    expect(error?.code).toBeUndefined();
+  });
+
+  test('HTTP failures are typed and name the request', async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch: async req => {
+        if (req.method !== 'POST') return new Response(null, { status: 405 });
+        const message = await req.json() as JsonRpcRequest;
+        if (message.id === undefined) return new Response(null, { status: 202 });
+        if (message.method === 'initialize') {
+          return Response.json({ jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {} } } });
+        }
+        return new Response('Overloaded', { status: 503 });
+      }
+    });
+
+    try {
+      managerInstance = await manager({
+        remote: { transport: { type: 'http', url: `http://localhost:${server.port}/mcp` } }
+      }).use('remote');
+      const client = managerInstance.getClient('remote')!;
+
+      expect(await caught(client.callTool('search', {}))).toMatchObject({
+        kind: 'protocol',
+        data: { status: 503 },
+        serverName: 'remote',
+        method: 'tools/call'
+      });
+
+      server.stop(true);
+      const unreachable = await caught(client.callTool('search', {}));
+      expect(unreachable).toMatchObject({ kind: 'transportClosed', serverName: 'remote', method: 'tools/call' });
+      expect(unreachable?.requestId).toBeDefined();
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test('failures raised by the client itself are typed too', async () => {
+    const endless = createMemoryTestServer({
+      capabilities: { tools: {} },
+      onRequest: request => createJsonRpcResponse(request.id, { tools: [], nextCursor: 'again' })
+    });
+    managerInstance = await manager({
+      endless: { transport: { type: 'memory', handler: endless.handler } }
+    }).use('endless');
+    const client = managerInstance.getClient('endless')!;
+
+    expect(await caught(client.listTools({ all: true, maxPages: 2 }))).toMatchObject({
+      kind: 'protocol',
+      serverName: 'endless',
+      method: 'tools/list',
+      data: { maxPages: 2, nextCursor: 'again' }
+    });
+    expect(await caught(client.setRoots([]))).toMatchObject({
+      kind: 'unsupported',
+      serverName: 'endless',
+      data: { capability: 'roots' }
+    });
+  });
+
+  test('a notification handler that throws fails pending requests with a protocol error', async () => {
+    const server = createMemoryTestServer({ capabilities: { tools: {} }, onRequest: () => undefined });
+    managerInstance = await manager({
+      noisy: { transport: { type: 'memory', handler: server.handler } }
+    }, {
+      onNotification: () => { throw new Error('Listener failed'); }
+    }).use('noisy');
+
+    const pending = caught(managerInstance.getClient('noisy')!.listTools());
+    await server.waitFor(() => server.methods.includes('tools/list'));
+    await server.notify('notifications/tools/list_changed');
+
+    expect(await pending).toMatchObject({
+      kind: 'protocol',
+      message: 'Error processing message: Listener failed',
+      serverName: 'noisy',
+      method: 'tools/list'
+    });
+  });
+
+  test('an unusable handshake fails use() with an initialization error', async () => {
+    const outdated = createMemoryTestServer({ protocolVersion: '2023-01-01' }).handler;
+
+    const error = await caught(manager({
+      outdated: { transport: { type: 'memory', handler: outdated } }
+    }).use('outdated'));
+
+    expect(error).toMatchObject({ kind: 'initialization', serverName: 'outdated', method: 'initialize' });
+    expect(error?.message).toContain('protocol version 2023-01-01');
+  });
+});
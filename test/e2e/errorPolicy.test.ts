@@ -0,0 +1,110 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { createJsonRpcResponse, createJsonRpcErrorResponse } from '../../src/utils';
+import { createLenientManagerOptions, createMemoryTestServer } from '../../src/test-utils';
+import { ERROR_CODES } from '../../src/constants';
+import type { ManagerAPI, LenientFallback } from '../../src/types';
+
+// In-process server that declares the usual capabilities but answers nothing beyond initialize
+const { handler } = createMemoryTestServer({
+  capabilities: { tools: {}, resources: {}, prompts: {}, completions: {} },
+  onRequest: request => createJsonRpcErrorResponse(request.id, ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+});
+
+describe('Error Policy E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('surfaces the server error by default', async () => {
+    managerInstance = await manager({
+      bare: { transport: { type: 'memory', handler } }
+    }).use('bare');
+    const client = managerInstance.getClient('bare')!;
+
+    const error = await client.listResources().then(
+      () => undefined,
+      err => err as Error & { code?: number }
+    );
+    expect(error?.message).toBe('Method not found: resources/list');
+    expect(error?.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+
+    await expect(client.callTool('slowCalculate', {})).rejects.toThrow('Method not found: tools/call');
+    await expect(client.listPrompts()).rejects.toThrow('Method not found: prompts/list');
+    await expect(client.complete({
+      ref: { type: 'ref/prompt', name: 'countryPoem' },
+      argument: { name: 'countryName', value: 'ger' }
+    })).rejects.toThrow('Method not found');
+  });
+
+  test('lenientFallback answers only unsupported requests, and only under the lenient policy', async () => {
+    const failed: Array<{ method: string; params?: unknown }> = [];
+    const lenientFallback: LenientFallback = (serverName, request) => {
+      expect(serverName).toBe('bare');
+      failed.push({ method: request.method, params: request.params });
+      return request.method === 'prompts/list' ? { prompts: [{ name: 'fallback' }] } : { contents: [] };
+    };
+    const quota = createMemoryTestServer({
+      capabilities: { prompts: {} },
+      onRequest: request => createJsonRpcErrorResponse(request.id, -32010, 'Quota exceeded')
+    });
+
+    managerInstance = await manager({
+      bare: { transport: { type: 'memory', handler } },
+      limited: { transport: { type: 'memory', handler: quota.handler } }
+    }, { errorPolicy: 'lenient', lenientFallback }).use('bare');
+    await managerInstance.use('limited');
+
+    expect((await managerInstance.getClient('bare')!.listPrompts()).map(prompt => prompt.name)).toEqual(['fallback']);
+    expect(await managerInstance.getClient('bare')!.readResource('file:///missing.txt')).toEqual({ contents: [] });
+    // An error outside the server's reserved codes is the server's own answer, not a missing feature
+    await expect(managerInstance.getClient('limited')!.listPrompts()).rejects.toThrow('Quota exceeded');
+    expect(failed).toEqual([
+      { method: 'prompts/list', params: undefined },
+      { method: 'resources/read', params: { uri: 'file:///missing.txt' } }
+    ]);
+    await managerInstance.disconnectAll();
+
+    managerInstance = await manager({
+      bare: { transport: { type: 'memory', handler } }
+    }, { lenientFallback }).use('bare');
+    await expect(managerInstance.getClient('bare')!.listPrompts()).rejects.toThrow('Method not found: prompts/list');
+    expect(failed).toHaveLength(2);
+  });
+
+  test('a fallback result is not cached in place of the server answer', async () => {
+    let available = false;
+    const flaky = createMemoryTestServer({
+      capabilities: { tools: {} },
+      onRequest: request => available
+        ? createJsonRpcResponse(request.id, { tools: [{ name: 'search', inputSchema: {} }] })
+        : createJsonRpcErrorResponse(request.id, ERROR_CODES.INTERNAL_ERROR, 'Index is warming up')
+    });
+    managerInstance = await manager({
+      flaky: { transport: { type: 'memory', handler: flaky.handler }, cacheCatalog: true }
+    }, { errorPolicy: 'lenient', lenientFallback: () => ({ tools: [] }) }).use('flaky');
+    const client = managerInstance.getClient('flaky')!;
+
+    expect(await client.listTools()).toEqual([]);
+    available = true;
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['search']);
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['search']);
+    expect(flaky.requests.map(request => request.method)).toEqual(['tools/list', 'tools/list']);
+  });
+
+  test('the lenient test fixture resolves to placeholder data instead', async () => {
+    managerInstance = await manager({
+      bare: { transport: { type: 'memory', handler } }
+    }, createLenientManagerOptions()).use('bare');
+    const client = managerInstance.getClient('bare')!;
+
+    expect(await client.callTool<{ content: unknown[] }>('slowCalculate', {})).toEqual({ content: [{ type: 'text', text: '4' }] });
+    expect((await client.listPrompts()).map(prompt => prompt.name)).toEqual(['countryPoem']);
+    expect(await client.readResource('file:///missing.txt')).toEqual({ contents: [] });
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import type { Server } from 'bun';
+import { manager } from '../../src/core';
+import { isMcpError } from '../../src/utils';
+import type { ManagerAPI, JsonRpcNotification, JsonRpcRequest } from '../../src/types';
+
+const SESSION_ID = 'test-session-1';
+
+// Minimal Streamable HTTP server: JSON responses for most requests,
+// an SSE stream for tools/list and a long-lived GET stream for notifications
+const createStreamableHttpServer = () => {
+  const seenSessionIds: Array<string | null> = [];
+  const seenProtocolVersions: Array<string | null> = [];
+  const deletedSessions: string[] = [];
+  const encoder = new TextEncoder();
+
+  const sseEvent = (payload: unknown) => encoder.encode(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      if (req.method === 'DELETE') {
+        deletedSessions.push(req.headers.get('Mcp-Session-Id') ?? '');
+        return new Response(null, { status: 200 });
+      }
+
+      if (req.method === 'GET') {
+        if (req.headers.get('Mcp-Session-Id') !== SESSION_ID) return new Response(null, { status: 400 });
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(sseEvent({ jsonrpc: '2.0', method: 'getStreamNotification', params: { via: 'get' } }));
+          }
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      const message = await req.json() as JsonRpcRequest;
+      if (message.method !== 'initialize') {
+        seenSessionIds.push(req.headers.get('Mcp-Session-Id'));
+        seenProtocolVersions.push(req.headers.get('MCP-Protocol-Version'));
+        if (req.headers.get('Mcp-Session-Id') !== SESSION_ID) return new Response(null, { status: 404 });
+      }
+
+      // Notifications are accepted without a body
+      if (message.id === undefined) return new Response(null, { status: 202 });
+
+      if (message.method === 'initialize') {
+        return Response.json(
+          { jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-03-26', capabilities: { tools: {} } } },
+          { headers: { 'Mcp-Session-Id': SESSION_ID } }
+        );
+      }
+
+      if (message.method === 'tools/list') {
+        // Split the SSE body across chunks, including mid-line, to exercise the parser
+        const body = `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', method: 'listingTools', params: {} })}\n\n` +
+          `: keep-alive comment\r\n` +
+          `id: 1\r\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result: { tools: [{ name: 'echo', inputSchema: {} }] } })}\r\n\r\n`;
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            const bytes = encoder.encode(body);
+            const middle = Math.floor(bytes.length / 2);
+            controller.enqueue(bytes.slice(0, middle));
+            controller.enqueue(bytes.slice(middle));
+            controller.close();
+          }
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      if (message.method === 'ping') {
+        return Response.json({ jsonrpc: '2.0', id: message.id, result: {} });
+      }
+
+      return Response.json({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } });
+    }
+  });
+
+  return { server, seenSessionIds, seenProtocolVersions, deletedSessions };
+};
+
+// Server whose streams break: the first GET stream and every tools/list response stream
+// fail mid-way, while JSON responses keep working
+const createBrokenStreamServer = () => {
+  const encoder = new TextEncoder();
+  let getStreams = 0;
+
+  const sseEvent = (payload: unknown) => encoder.encode(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+  const stream = (payload: unknown, broken: boolean) => new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(sseEvent(payload));
+      // Fail once the response is under way, so the request itself went through
+      if (broken) setTimeout(() => controller.error(new Error('Connection reset')), 20);
+    }
+  }), { headers: { 'Content-Type': 'text/event-stream' } });
+
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      if (req.method === 'DELETE') return new Response(null, { status: 200 });
+      if (req.method === 'GET') {
+        getStreams++;
+        return stream({ jsonrpc: '2.0', method: 'getStreamOpened', params: { count: getStreams } }, getStreams === 1);
+      }
+
+      const message = await req.json() as JsonRpcRequest;
+      if (message.id === undefined) return new Response(null, { status: 202 });
+      if (message.method === 'tools/list') {
+        return stream({ jsonrpc: '2.0', method: 'listingTools', params: {} }, true);
+      }
+      const result = message.method === 'initialize' ? { protocolVersion: '2025-06-18', capabilities: { tools: {} } } : {};
+      return Response.json({ jsonrpc: '2.0', id: message.id, result }, { headers: { 'Mcp-Session-Id': SESSION_ID } });
+    }
+  });
+
+  return { server, getStreamCount: () => getStreams };
+};
+
+describe('Streamable HTTP Transport E2E', () => {
+  let httpServer: ReturnType<typeof createStreamableHttpServer>;
+  let server: Server;
+  let managerInstance: ManagerAPI | undefined;
+
+  beforeAll(() => {
+    httpServer = createStreamableHttpServer();
+    server = httpServer.server;
+  });
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('initializes, reuses the session and handles JSON and SSE responses', async () => {
+    const notifications: Array<Omit<JsonRpcNotification, 'jsonrpc'>> = [];
+    const config = {
+      httpServer: {
+        transport: {
+          type: 'http' as const,
+          url: `http://localhost:${server.port}/mcp`
+        }
+      }
+    };
+
+    managerInstance = await manager(config, {
+      onNotification: (_serverName, notification) => notifications.push(notification)
+    }).use('httpServer');
+
+    const client = managerInstance.getClient('httpServer');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    await client.ping();
+
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['echo']);
+
+    // Notifications from the per-request stream and the GET stream both reach the handler
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(notifications.some(n => n.method === 'listingTools')).toBe(true);
+    expect(notifications.some(n => n.method === 'getStreamNotification')).toBe(true);
+
+    // Every request after initialize carries the negotiated session ID
+    expect(httpServer.seenSessionIds.length).toBeGreaterThan(0);
+    expect(httpServer.seenSessionIds.every(id => id === SESSION_ID)).toBe(true);
+
+    // ...and the negotiated protocol revision
+    expect(httpServer.seenProtocolVersions.every(version => version === '2025-03-26')).toBe(true);
+
+    const transport = managerInstance._getState().activeClients.httpServer.transport;
+    expect(transport._details.type).toBe('http');
+    expect(transport._details.sessionId).toBe(SESSION_ID);
+  });
+
+  test('a broken stream fails only the request it carried, and a broken GET stream is reopened', async () => {
+    const broken = createBrokenStreamServer();
+    const notifications: Array<Omit<JsonRpcNotification, 'jsonrpc'>> = [];
+
+    try {
+      managerInstance = await manager({
+        broken: { transport: { type: 'http', url: `http://localhost:${broken.server.port}/mcp` } }
+      }, {
+        onNotification: (_serverName, notification) => notifications.push(notification)
+      }).use('broken');
+      const client = managerInstance.getClient('broken')!;
+
+      const error = await client.listTools().then(() => undefined, err => err as Error);
+      expect(isMcpError(error, 'transportClosed')).toBe(true);
+      expect(error).toMatchObject({ serverName: 'broken', method: 'tools/list' });
+      expect(error?.message).toContain('Response stream for tools/list');
+
+      // The client is still connected and other requests go through
+      await client.ping();
+      expect(managerInstance.getClient('broken')).toBe(client);
+
+      for (let attempt = 0; attempt < 300 && broken.getStreamCount() < 2; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(notifications.filter(n => n.method === 'getStreamOpened').map(n => n.params)).toEqual([{ count: 1 }, { count: 2 }]);
+    } finally {
+      broken.server.stop(true);
+    }
+  });
+
+  test('terminates the session with DELETE on disconnect', async () => {
+    const config = {
+      httpServer: {
+        transport: {
+          type: 'http' as const,
+          url: `http://localhost:${server.port}/mcp`,
+          options: { openGetStream: false }
+        }
+      }
+    };
+
+    const deletedBefore = httpServer.deletedSessions.length;
+    const connected = await manager(config).use('httpServer');
+    const client = connected.getClient('httpServer');
+    expect(client).toBeDefined();
+
+    await client?.disconnect();
+
+    expect(httpServer.deletedSessions.length).toBe(deletedBefore + 1);
+    expect(httpServer.deletedSessions[httpServer.deletedSessions.length - 1]).toBe(SESSION_ID);
+    expect(connected.getClient('httpServer')).toBeUndefined();
+  });
+
+  test('adopts the session ID assigned during initialize', async () => {
+    const config = {
+      httpServer: {
+        transport: {
+          type: 'http' as const,
+          url: `http://localhost:${server.port}/mcp`,
+          options: { openGetStream: false, sessionId: 'stale-session' }
+        }
+      }
+    };
+
+    managerInstance = await manager(config).use('httpServer');
+    const transport = managerInstance._getState().activeClients.httpServer.transport;
+    expect(transport._details.sessionId).toBe(SESSION_ID);
+  });
+});
@@ -45,9 +45,9 @@ describe('Integration E2E', () => {
       
       // Handle specific notification types
       if (notification.method === NOTIFICATION_METHODS.PROGRESS && notification.params) {
-        const params = notification.params as {progress: Progress};
-        if (params.progress) {
-          progressUpdates.push(params.progress);
+        const params = notification.params as Progress;
+        if (typeof params.progress === 'number') {
+          progressUpdates.push(params);
         }
       }
       
@@ -1,5 +1,6 @@
 import { describe, test, expect, afterEach } from 'bun:test';
 import { manager } from '../../src/core';
+import { createLenientManagerOptions } from '../../src/test-utils';
 import { NOTIFICATION_METHODS } from '../../src/constants';
 import type { ManagerAPI, LoggingLevel } from '../../src/types';
 
@@ -41,7 +42,7 @@ describe('Logging Level E2E', () => {
     };
     
     // Create manager and connect to server
-    managerInstance = await manager(config, { onNotification: notificationHandler }).use('filesystemServer');
+    managerInstance = await manager(config, createLenientManagerOptions({ onNotification: notificationHandler })).use('filesystemServer');
     
     // Get the client
     const client = managerInstance.getClient('filesystemServer');
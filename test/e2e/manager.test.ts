@@ -82,7 +82,7 @@ const setupTestEnvironment = async (): Promise<void> => {
         }
         
         // Send a notification after successful initialization
-        if (request.method === 'initialized') {
+        if (request.method === 'notifications/initialized') {
           const notification = { jsonrpc: '2.0', method: 'testNotification', params: { message: 'Server ready' } };
           console.log(JSON.stringify(notification));
         }
@@ -0,0 +1,135 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { createMemoryChannelPair } from '../../src/utils';
+import type { ManagerAPI, JsonRpcMessage, JsonRpcNotification, JsonRpcResponse, MemoryServerHandler } from '../../src/types';
+
+// In-process server answering initialize, tools/list and tools/call; reading a
+// resource throws so the handler error path can be observed
+const toolServer: MemoryServerHandler = (message, sendToClient) => {
+  if (!('method' in message) || !('id' in message)) return;
+
+  const respond = (result: unknown): JsonRpcResponse => ({ jsonrpc: '2.0', id: message.id, result });
+
+  switch (message.method) {
+    case 'initialize':
+      return respond({ protocolVersion: '2024-11-05', capabilities: { tools: {}, resources: {} } });
+    case 'tools/list':
+      return respond({ tools: [{ name: 'add', inputSchema: {} }] });
+    case 'tools/call': {
+      const { arguments: args } = message.params as { arguments: { a: number; b: number } };
+      sendToClient({ jsonrpc: '2.0', method: 'toolInvoked', params: { name: 'add' } });
+      return respond({ content: [{ type: 'text', text: String(args.a + args.b) }] });
+    }
+    case 'resources/read':
+      throw new Error('Resource store is unavailable');
+    default:
+      return respond({});
+  }
+};
+
+describe('Memory Transport E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('runs the client protocol against a handler function', async () => {
+    const notifications: Array<Omit<JsonRpcNotification, 'jsonrpc'>> = [];
+
+    managerInstance = await manager({
+      inProcess: { transport: { type: 'memory', handler: toolServer } }
+    }, {
+      onNotification: (_serverName, notification) => notifications.push(notification)
+    }).use('inProcess');
+
+    const client = managerInstance.getClient('inProcess');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['add']);
+
+    const result = await client.callTool<{ content: Array<{ text: string }> }>('add', { a: 2, b: 3 });
+    expect(result.content[0].text).toBe('5');
+    expect(notifications.some(n => n.method === 'toolInvoked')).toBe(true);
+
+    // A throwing handler answers with a JSON-RPC error instead of hanging the request
+    await expect(client.readResource('memory://missing')).rejects.toThrow('Resource store is unavailable');
+
+    expect(managerInstance._getState().activeClients.inProcess.transport._details.type).toBe('memory');
+  });
+
+  test('connects through a channel pair and drops the client when the server end closes', async () => {
+    const [clientEnd, serverEnd] = createMemoryChannelPair();
+    const received: JsonRpcMessage[] = [];
+
+    serverEnd.onMessage(message => {
+      received.push(message);
+      if ('method' in message && 'id' in message && message.method === 'initialize') {
+        serverEnd.postMessage({ jsonrpc: '2.0', id: message.id, result: { capabilities: { resources: {} } } });
+      }
+      // Everything else stays unanswered
+    });
+
+    const connected = await manager({
+      inProcess: { transport: { type: 'memory', channel: clientEnd } }
+    }).use('inProcess');
+
+    const client = connected.getClient('inProcess');
+    expect(client).toBeDefined();
+    expect(received.some(message => 'method' in message && message.method === 'initialize')).toBe(true);
+    // The handshake ends with a notification, which has no id and expects no answer
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(received.filter(message => 'method' in message && message.method.includes('initialized')))
+      .toEqual([{ jsonrpc: '2.0', method: 'notifications/initialized' }]);
+
+    const pending = client!.listResources().catch(err => err as Error);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    serverEnd.close();
+
+    const error = await pending;
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('closed by the server');
+    expect(connected.getClient('inProcess')).toBeUndefined();
+  });
+
+  test('drops answers that arrive after the client disconnected', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+
+    let release = () => {};
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const slowServer: MemoryServerHandler = async message => {
+      if (!('method' in message) || !('id' in message)) return;
+      if (message.method === 'initialize') {
+        return { jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} } } };
+      }
+      await released;
+      if (message.method === 'tools/list') throw new Error('Tool registry went away');
+      return { jsonrpc: '2.0', id: message.id, result: {} };
+    };
+
+    try {
+      const connected = await manager({
+        inProcess: { transport: { type: 'memory', handler: slowServer } }
+      }).use('inProcess');
+      const client = connected.getClient('inProcess')!;
+
+      // One request would be answered with a result, the other with a handler error
+      const pending = [client.callTool('add', {}), client.listTools()].map(request => request.catch(() => undefined));
+      await connected.disconnectAll();
+      await Promise.all(pending);
+      release();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(unhandled).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+  });
+});
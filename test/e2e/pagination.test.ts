@@ -0,0 +1,109 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { createJsonRpcResponse } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, Tool } from '../../src/types';
+
+const makeTools = (count: number): Tool[] =>
+  Array.from({ length: count }, (_, index) => ({ name: `tool-${index + 1}`, inputSchema: {} }));
+
+// In-process server that pages tools/list and prompts/list, pageSize items at a time
+const createServer = (tools: Tool[], pageSize: number, options: { endlessPrompts?: boolean } = {}) => {
+  const cursorsReceived: Array<string | undefined> = [];
+
+  const server = createMemoryTestServer({
+    capabilities: { tools: {}, prompts: {} },
+    onRequest: request => {
+      const cursor = (request.params as { cursor?: string } | undefined)?.cursor;
+
+      if (request.method === 'tools/list') {
+        cursorsReceived.push(cursor);
+        const start = cursor ? Number(cursor) : 0;
+        const end = start + pageSize;
+        return createJsonRpcResponse(request.id, {
+          tools: tools.slice(start, end),
+          ...(end < tools.length ? { nextCursor: String(end) } : {})
+        });
+      }
+      if (request.method === 'prompts/list' && options.endlessPrompts) {
+        // A broken server that always claims there is another page
+        return createJsonRpcResponse(request.id, { prompts: [{ name: 'again' }], nextCursor: 'same' });
+      }
+      return createJsonRpcResponse(request.id, {});
+    }
+  });
+
+  return { ...server, cursorsReceived };
+};
+
+describe('Pagination E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('fetches single pages with a cursor', async () => {
+    const server = createServer(makeTools(5), 2);
+    managerInstance = await manager({
+      catalog: { transport: { type: 'memory', handler: server.handler } }
+    }).use('catalog');
+    const client = managerInstance.getClient('catalog')!;
+
+    const first = await client.listToolsPage();
+    expect(first.items.map(tool => tool.name)).toEqual(['tool-1', 'tool-2']);
+    expect(first.nextCursor).toBe('2');
+
+    const last = await client.listToolsPage({ cursor: '4' });
+    expect(last).toEqual({ items: [{ name: 'tool-5', inputSchema: {} }] });
+
+    // Without `all`, listTools keeps returning only the first page
+    expect(await client.listTools()).toHaveLength(2);
+    expect(server.cursorsReceived).toEqual([undefined, '4', undefined]);
+  });
+
+  test('iterates and collects every page', async () => {
+    const server = createServer(makeTools(5), 2);
+    managerInstance = await manager({
+      catalog: { transport: { type: 'memory', handler: server.handler } }
+    }).use('catalog');
+    const client = managerInstance.getClient('catalog')!;
+
+    const names: string[] = [];
+    for await (const tool of client.iterateTools()) names.push(tool.name);
+    expect(names).toEqual(['tool-1', 'tool-2', 'tool-3', 'tool-4', 'tool-5']);
+
+    const all = await client.listTools({ all: true });
+    expect(all.map(tool => tool.name)).toEqual(names);
+    expect(server.cursorsReceived).toEqual([undefined, '2', '4', undefined, '2', '4']);
+  });
+
+  test('stops fetching when the iteration ends early', async () => {
+    const server = createServer(makeTools(10), 2);
+    managerInstance = await manager({
+      catalog: { transport: { type: 'memory', handler: server.handler } }
+    }).use('catalog');
+
+    for await (const tool of managerInstance.getClient('catalog')!.iterateTools()) {
+      if (tool.name === 'tool-3') break;
+    }
+    expect(server.cursorsReceived).toEqual([undefined, '2']);
+  });
+
+  test('fails instead of looping forever once maxPages is reached', async () => {
+    const server = createServer(makeTools(1), 1, { endlessPrompts: true });
+    managerInstance = await manager({
+      catalog: { transport: { type: 'memory', handler: server.handler } }
+    }).use('catalog');
+
+    const error = await managerInstance.getClient('catalog')!.listPrompts({ all: true, maxPages: 3 }).then(
+      () => undefined,
+      err => err as Error & { data?: { maxPages?: number; nextCursor?: string } }
+    );
+    expect(error?.message).toContain('returned more than 3 pages');
+    expect(error?.data).toEqual({ maxPages: 3, nextCursor: 'same' });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { createJsonRpcResponse } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, Progress } from '../../src/types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// In-process server whose tools/call reports progress against the request's progressToken
+// every stepMs before answering
+const createServer = (steps: number, stepMs: number) => {
+  const server = createMemoryTestServer({
+    capabilities: { tools: {} },
+    onRequest: async (request, sendToClient) => {
+      if (request.method !== 'tools/call') return createJsonRpcResponse(request.id, {});
+      const progressToken = (request.params as { _meta?: { progressToken?: string | number } })._meta?.progressToken;
+      for (let step = 1; step <= steps; step++) {
+        await sleep(stepMs);
+        if (progressToken !== undefined) {
+          sendToClient({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken, progress: step, total: steps, message: `Step ${step}` }
+          });
+        }
+      }
+      return createJsonRpcResponse(request.id, { content: [{ type: 'text', text: 'done' }] });
+    }
+  });
+  return { ...server, toolCalls: () => server.requests.filter(request => request.method === 'tools/call') };
+};
+
+describe('Progress Notifications E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('sends a progressToken and routes notifications/progress to onProgress', async () => {
+    const server = createServer(3, 5);
+    const notifications: string[] = [];
+    managerInstance = await manager({
+      worker: { transport: { type: 'memory', handler: server.handler } }
+    }, {
+      onNotification: (_serverName, notification) => notifications.push(notification.method)
+    }).use('worker');
+
+    const updates: Progress[] = [];
+    const result = await managerInstance.getClient('worker')!.callTool('longTask', { size: 3 }, {
+      onProgress: progress => updates.push(progress)
+    });
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'done' }] });
+    const params = server.toolCalls()[0].params as { arguments: unknown; _meta: { progressToken: unknown } };
+    expect(params.arguments).toEqual({ size: 3 });
+    expect(params._meta.progressToken).toBe(server.toolCalls()[0].id);
+
+    expect(updates).toEqual([
+      { progress: 1, total: 3, message: 'Step 1' },
+      { progress: 2, total: 3, message: 'Step 2' },
+      { progress: 3, total: 3, message: 'Step 3' }
+    ]);
+    // onNotification still sees every progress notification
+    expect(notifications.filter(method => method === 'notifications/progress')).toHaveLength(3);
+  });
+
+  test('does not send a progressToken or invent progress without onProgress', async () => {
+    const server = createServer(2, 5);
+    managerInstance = await manager({
+      worker: { transport: { type: 'memory', handler: server.handler } }
+    }).use('worker');
+
+    await managerInstance.getClient('worker')!.callTool('longTask', {});
+    expect((server.toolCalls()[0].params as { _meta?: unknown })._meta).toBeUndefined();
+  });
+
+  test('resetTimeoutOnProgress keeps a long call alive while progress arrives', async () => {
+    // Each step is shorter than the timeout, but the whole call is not
+    const server = createServer(4, 60);
+    managerInstance = await manager({
+      worker: { transport: { type: 'memory', handler: server.handler } }
+    }, { requestTimeoutMs: 150, resetTimeoutOnProgress: true }).use('worker');
+
+    const client = managerInstance.getClient('worker')!;
+    const result = await client.callTool('longTask', {});
+    expect(result).toEqual({ content: [{ type: 'text', text: 'done' }] });
+
+    // The per-call option overrides the manager default
+    await expect(client.callTool('longTask', {}, { resetTimeoutOnProgress: false, onProgress: () => {} }))
+      .rejects.toThrow('timed out after 150ms');
+  });
+});
@@ -3,6 +3,9 @@ import { manager } from '../../src/core';
 import { Progress } from '../../src/types';
 import type { ManagerAPI } from '../../src/types';
 
+// Bounds starting the server and each request, so a server that never answers fails the test quickly
+const REQUEST_TIMEOUT_MS = 5000;
+
 describe('Progress Tracking E2E', () => {
   let managerInstance: ManagerAPI;
   
@@ -25,19 +28,24 @@ describe('Progress Tracking E2E', () => {
     };
     
     // Create manager and connect to server
-    managerInstance = await manager(config).use('calculatorServer');
+    managerInstance = await manager(config, { requestTimeoutMs: REQUEST_TIMEOUT_MS }).use('calculatorServer');
     
     // Get the client
     const client = managerInstance.getClient('calculatorServer');
     expect(client).toBeDefined();
     
     if (client) {
-      // Progress tracking array
-      const progressUpdates: Progress[] = [];
+      // Progress tracking array; the calculator always reports a total
+      const progressUpdates: Array<Progress & { total: number }> = [];
+      let updatesWithoutTotal = 0;
       
       // Create a progress callback
       const onProgress = (progress: Progress) => {
-        progressUpdates.push(progress);
+        if (progress.total === undefined) {
+          updatesWithoutTotal++;
+        } else {
+          progressUpdates.push({ ...progress, total: progress.total });
+        }
       };
       
       // Call a tool with progress tracking
@@ -61,6 +69,7 @@ describe('Progress Tracking E2E', () => {
       
       // And we should have received at least one progress update
       expect(progressUpdates.length).toBeGreaterThan(0);
+      expect(updatesWithoutTotal).toBe(0);
       
       // Each progress update should have the correct structure
       for (const progress of progressUpdates) {
@@ -78,5 +87,6 @@ describe('Progress Tracking E2E', () => {
         expect(lastUpdate.progress).toBeGreaterThan(0);
       }
     }
-  });
+    // Done once the tool has answered: initialization and the call each get at most REQUEST_TIMEOUT_MS
+  }, 2 * REQUEST_TIMEOUT_MS + 1000);
 }); 
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { MCP_PROTOCOL_VERSION } from '../../src/constants';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI } from '../../src/types';
+
+// In-process server that answers initialize with the given result
+const createServer = (initializeResult: Record<string, unknown>) => createMemoryTestServer({ initializeResult });
+
+describe('Protocol Version Negotiation E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('accepts a supported revision and exposes server info', async () => {
+    const server = createServer({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: { listChanged: true } },
+      serverInfo: { name: 'example-server', version: '2.1.0' },
+      instructions: 'Call search before fetch.'
+    });
+
+    managerInstance = await manager({
+      example: { transport: { type: 'memory', handler: server.handler } }
+    }).use('example');
+
+    const client = managerInstance.getClient('example');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    // The latest revision is offered; the server's choice wins
+    const offered = server.initializeRequests[0].params as { protocolVersion: string };
+    expect(offered.protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+    expect(client.getProtocolVersion()).toBe('2025-03-26');
+
+    expect(client.getServerInfo()).toEqual({ name: 'example-server', version: '2.1.0' });
+    expect(client.getInstructions()).toBe('Call search before fetch.');
+    expect(client.getCapabilities()).toEqual({ tools: { listChanged: true } });
+  });
+
+  test('fails clearly when the server chooses an unsupported revision', async () => {
+    const server = createServer({ protocolVersion: '2023-01-01', capabilities: {} });
+
+    const error = await manager({
+      example: { transport: { type: 'memory', handler: server.handler } }
+    }).use('example').then(
+      () => undefined,
+      err => err as Error & { data?: { received?: string } }
+    );
+
+    expect(error?.message).toContain('uses MCP protocol version 2023-01-01');
+    expect(error?.message).toContain('2025-06-18, 2025-03-26, 2024-11-05');
+    expect(error?.data?.received).toBe('2023-01-01');
+  });
+
+  test('assumes the oldest revision when the server reports none', async () => {
+    const server = createServer({ capabilities: {} });
+
+    managerInstance = await manager({
+      example: { transport: { type: 'memory', handler: server.handler } }
+    }).use('example');
+
+    const client = managerInstance.getClient('example');
+    expect(client?.getProtocolVersion()).toBe('2024-11-05');
+    expect(client?.getServerInfo()).toBeUndefined();
+    expect(client?.getInstructions()).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { findMissingCapabilities } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, McpError } from '../../src/types';
+
+// In-process server that declares the given capabilities
+const createServer = (capabilities: Record<string, unknown>) => createMemoryTestServer({ capabilities });
+
+describe('Required Capabilities E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('matches nested capabilities key by key', () => {
+    const declared = { tools: { listChanged: false }, resources: { subscribe: true }, logging: {} };
+
+    expect(findMissingCapabilities({ tools: {}, resources: { subscribe: true }, logging: {} }, declared)).toEqual([]);
+    expect(findMissingCapabilities(
+      { tools: { listChanged: true }, prompts: {}, resources: { subscribe: true, listChanged: true } },
+      declared
+    )).toEqual(['tools.listChanged', 'prompts', 'resources.listChanged']);
+    expect(findMissingCapabilities({ experimental: { tracing: {} } }, { experimental: true })).toEqual(['experimental']);
+  });
+
+  test('compares array requirements by their elements', () => {
+    const declared = { experimental: { formats: ['json', 'yaml'], limits: [{ name: 'rate', value: 10 }] } };
+
+    expect(findMissingCapabilities({ experimental: { formats: ['json', 'yaml'] } }, declared)).toEqual([]);
+    expect(findMissingCapabilities({ experimental: { limits: [{ value: 10, name: 'rate' }] } }, declared)).toEqual([]);
+    expect(findMissingCapabilities(
+      { experimental: { formats: ['json'], limits: [{ name: 'rate', value: 20 }] } },
+      declared
+    )).toEqual(['experimental.formats', 'experimental.limits']);
+    expect(findMissingCapabilities({ experimental: { formats: [] } }, { experimental: { formats: {} } })).toEqual(['experimental.formats']);
+  });
+
+  test('connects when the server declares everything required', async () => {
+    const server = createServer({ tools: { listChanged: true }, prompts: {} });
+    managerInstance = await manager({
+      search: {
+        transport: { type: 'memory', handler: server.handler },
+        requiredCapabilities: { tools: { listChanged: true } }
+      }
+    }).use('search');
+
+    expect(managerInstance.getClient('search')).toBeDefined();
+  });
+
+  test('fails use() with the missing capabilities before the client is usable', async () => {
+    const server = createServer({ tools: {} });
+    const instance = manager({
+      search: {
+        transport: { type: 'memory', handler: server.handler },
+        requiredCapabilities: { tools: { listChanged: true }, resources: { subscribe: true } }
+      }
+    });
+
+    const error = await instance.use('search').then(() => undefined, err => err as McpError);
+    expect(error?.kind).toBe('initialization');
+    expect(error?.message).toBe('Server search is missing required capabilities: tools.listChanged, resources');
+    expect(error?.data).toEqual({ missingCapabilities: ['tools.listChanged', 'resources'] });
+    expect(instance.getClient('search')).toBeUndefined();
+    expect(server.methods).toEqual(['initialize']);
+  });
+
+  test('only warns in warn mode, per server or manager-wide', async () => {
+    const server = createServer({ tools: {} });
+    managerInstance = await manager({
+      optional: {
+        transport: { type: 'memory', handler: server.handler },
+        requiredCapabilities: { prompts: {} },
+        capabilityCheck: 'warn'
+      }
+    }).use('optional');
+    expect(managerInstance.getClient('optional')).toBeDefined();
+    await managerInstance.disconnectAll();
+
+    managerInstance = await manager({
+      search: { transport: { type: 'memory', handler: server.handler }, requiredCapabilities: { prompts: {} } }
+    }, { capabilityCheck: 'warn' }).use('search');
+    expect(managerInstance.getClient('search')).toBeDefined();
+  });
+});
@@ -0,0 +1,221 @@
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, ResourceUpdatedEvent, JsonRpcRequest } from '../../src/types';
+
+const TEST_DIR = join(process.cwd(), 'test-tmp-subscriptions');
+const RESTARTABLE_SERVER_SCRIPT = join(TEST_DIR, 'restartable-server.js');
+
+// Reports its subscriptions through the `subscriptions` tool and exits with code 2 on `crash`,
+// so every reconnect starts a server that knows nothing about earlier subscriptions
+const restartableServer = `
+  const readline = require('readline');
+  const rl = readline.createInterface({ input: process.stdin, terminal: false });
+  const subscribed = new Set();
+  const send = (message) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+
+  rl.on('line', (line) => {
+    const request = JSON.parse(line);
+    if (request.id === undefined) return;
+    if (request.method === 'initialize') {
+      send({ id: request.id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {}, resources: { subscribe: true } } } });
+    } else if (request.method === 'resources/subscribe') {
+      subscribed.add(request.params.uri);
+      send({ id: request.id, result: {} });
+    } else if (request.method === 'tools/call' && request.params.name === 'crash') {
+      process.exit(2);
+    } else if (request.method === 'tools/call' && request.params.name === 'touch') {
+      subscribed.forEach(uri => send({ method: 'notifications/resources/updated', params: { uri } }));
+      send({ id: request.id, result: { subscriptions: [...subscribed] } });
+    } else {
+      send({ id: request.id, result: {} });
+    }
+  });
+`;
+
+// In-process server with subscription support that records subscribe and unsubscribe requests
+const createServer = (capabilities: Record<string, unknown> = { resources: { subscribe: true } }) => {
+  const server = createMemoryTestServer({ capabilities });
+  const resourceRequests = () => server.requests
+    .filter(request => request.method.startsWith('resources/'))
+    .map(request => ({ method: request.method, uri: (request.params as { uri?: string }).uri }));
+
+  return {
+    ...server,
+    resourceRequests,
+    resourceUpdated: (uri: string) => server.notify('notifications/resources/updated', { uri })
+  };
+};
+
+// Legacy SSE server that starts a new session on every stream; a ping drops the stream,
+// so the client reconnects onto a session without any subscriptions
+const createSessionSseServer = () => {
+  const encoder = new TextEncoder();
+  const subscribes: Array<{ sessionId: string; uri: string }> = [];
+  let current: { sessionId: string; controller: ReadableStreamDefaultController<Uint8Array> } | null = null;
+  let sessions = 0;
+
+  const push = (message: unknown) =>
+    current?.controller.enqueue(encoder.encode(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', ...message as object })}\n\n`));
+
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      if (req.method === 'GET') {
+        const sessionId = `session-${++sessions}`;
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            current = { sessionId, controller };
+            controller.enqueue(encoder.encode(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`));
+          }
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      const sessionId = new URL(req.url).searchParams.get('sessionId');
+      if (!current || sessionId !== current.sessionId) return new Response('Unknown session', { status: 404 });
+
+      const request = await req.json() as JsonRpcRequest;
+      if (request.method === 'ping') {
+        current.controller.close();
+        current = null;
+      } else if (request.id !== undefined) {
+        if (request.method === 'resources/subscribe') subscribes.push({ sessionId, uri: (request.params as { uri: string }).uri });
+        push({
+          id: request.id,
+          result: request.method === 'initialize' ? { protocolVersion: '2024-11-05', capabilities: { resources: { subscribe: true } } } : {}
+        });
+      }
+      return new Response('Accepted', { status: 202 });
+    }
+  });
+
+  return { server, subscribes, resourceUpdated: (uri: string) => push({ method: 'notifications/resources/updated', params: { uri } }) };
+};
+
+describe('Resource Subscriptions E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  beforeAll(async () => {
+    if (!existsSync(TEST_DIR)) {
+      await mkdir(TEST_DIR, { recursive: true });
+    }
+    await writeFile(RESTARTABLE_SERVER_SCRIPT, restartableServer);
+  });
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('subscribes once per URI and delivers updates to every listener', async () => {
+    const server = createServer();
+    managerInstance = await manager({
+      files: { transport: { type: 'memory', handler: server.handler } }
+    }).use('files');
+    const client = managerInstance.getClient('files')!;
+    expect(client.subscribeResource).toBeDefined();
+
+    const first: ResourceUpdatedEvent[] = [];
+    const second: ResourceUpdatedEvent[] = [];
+    const onFirst = (event: ResourceUpdatedEvent) => first.push(event);
+
+    const unsubscribeFirst = await client.subscribeResource!('file:///notes.txt', onFirst);
+    await client.subscribeResource!('file:///notes.txt', onFirst); // Same listener again is ignored
+    const unsubscribeSecond = await client.subscribeResource!('file:///notes.txt', event => second.push(event));
+    expect(server.resourceRequests()).toEqual([{ method: 'resources/subscribe', uri: 'file:///notes.txt' }]);
+
+    await server.resourceUpdated('file:///notes.txt');
+    await server.resourceUpdated('file:///other.txt');
+    expect(first).toEqual([{ serverName: 'files', uri: 'file:///notes.txt' }]);
+    expect(second).toEqual([{ serverName: 'files', uri: 'file:///notes.txt' }]);
+
+    // The server subscription ends with the last listener
+    await unsubscribeFirst();
+    expect(server.resourceRequests()).toHaveLength(1);
+    await unsubscribeSecond();
+    expect(server.resourceRequests()[1]).toEqual({ method: 'resources/unsubscribe', uri: 'file:///notes.txt' });
+
+    await server.resourceUpdated('file:///notes.txt');
+    expect(first).toHaveLength(1);
+  });
+
+  test('is not offered when the server does not support subscriptions', async () => {
+    const server = createServer({ resources: {} });
+    managerInstance = await manager({
+      files: { transport: { type: 'memory', handler: server.handler } }
+    }).use('files');
+
+    expect(managerInstance.getClient('files')?.subscribeResource).toBeUndefined();
+  });
+
+  test('re-establishes subscriptions after the client reconnects', async () => {
+    const updates: ResourceUpdatedEvent[] = [];
+    managerInstance = await manager({
+      restartable: { transport: { type: 'stdio', command: process.execPath, args: [RESTARTABLE_SERVER_SCRIPT] } }
+    }).use('restartable');
+
+    await managerInstance.getClient('restartable')!.subscribeResource!('file:///watched.txt', event => updates.push(event));
+
+    // The server crashes and the client is dropped
+    await managerInstance.getClient('restartable')!.callTool('crash', {}).catch(() => undefined);
+    for (let attempt = 0; attempt < 50 && managerInstance.getClient('restartable'); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(managerInstance.getClient('restartable')).toBeUndefined();
+
+    await managerInstance.use('restartable');
+    const result = await managerInstance.getClient('restartable')!.callTool<{ subscriptions: string[] }>('touch', {});
+
+    expect(result.subscriptions).toEqual(['file:///watched.txt']);
+    expect(updates).toEqual([{ serverName: 'restartable', uri: 'file:///watched.txt' }]);
+  });
+
+  test('re-establishes subscriptions when the transport reconnects onto a new session', async () => {
+    const sessionServer = createSessionSseServer();
+    const updates: ResourceUpdatedEvent[] = [];
+
+    try {
+      managerInstance = await manager({
+        legacy: {
+          transport: {
+            type: 'sse',
+            url: `http://localhost:${sessionServer.server.port}/sse`,
+            reconnect: { maxAttempts: 3, baseDelayMs: 20, jitterMs: 0 }
+          }
+        }
+      }).use('legacy');
+      const client = managerInstance.getClient('legacy')!;
+      await client.subscribeResource!('file:///watched.txt', event => updates.push(event));
+
+      // The stream drops and the client stays connected through the reconnect
+      await client.ping().catch(() => undefined);
+      for (let attempt = 0; attempt < 100 && sessionServer.subscribes.length < 2; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(sessionServer.subscribes).toEqual([
+        { sessionId: 'session-1', uri: 'file:///watched.txt' },
+        { sessionId: 'session-2', uri: 'file:///watched.txt' }
+      ]);
+      expect(managerInstance.getClient('legacy')).toBe(client);
+
+      sessionServer.resourceUpdated('file:///watched.txt');
+      for (let attempt = 0; attempt < 50 && updates.length === 0; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(updates).toEqual([{ serverName: 'legacy', uri: 'file:///watched.txt' }]);
+    } finally {
+      sessionServer.server.stop(true);
+    }
+  });
+});
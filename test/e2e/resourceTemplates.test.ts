@@ -1,5 +1,6 @@
 import { describe, test, expect, afterEach } from 'bun:test';
 import { manager } from '../../src/core';
+import { createLenientManagerOptions } from '../../src/test-utils';
 import { ResourceTemplate } from '../../src/types';
 import type { ManagerAPI } from '../../src/types';
 
@@ -31,7 +32,7 @@ describe('Resource Templates E2E', () => {
     };
     
     // Create manager and connect to server
-    managerInstance = await manager(config, { onNotification: notificationHandler }).use('filesystemServer');
+    managerInstance = await manager(config, createLenientManagerOptions({ onNotification: notificationHandler })).use('filesystemServer');
     
     // Verify we connected successfully
     expect(managerInstance).toBeDefined();
@@ -0,0 +1,102 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { ERROR_CODES } from '../../src/constants';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI } from '../../src/types';
+
+// In-process server that can ask the client for its roots
+const createServer = () => {
+  const server = createMemoryTestServer();
+  const notifiedMethods = () => server.notifications.map(notification => notification.method);
+  return {
+    ...server,
+    listRoots: () => server.request('roots/list'),
+    notifiedMethods,
+    waitForNotification: (method: string) => server.waitFor(() => notifiedMethods().includes(method))
+  };
+};
+
+describe('Roots E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('advertises roots and answers roots/list with the configured roots', async () => {
+    const server = createServer();
+
+    managerInstance = await manager({
+      workspace: { transport: { type: 'memory', handler: server.handler } }
+    }, {
+      roots: [{ uri: 'file:///home/user/project', name: 'Project' }]
+    }).use('workspace');
+
+    expect(server.advertisedCapabilities()).toEqual({ roots: { listChanged: true } });
+
+    const response = await server.listRoots();
+    expect(response.result).toEqual({ roots: [{ uri: 'file:///home/user/project', name: 'Project' }] });
+  });
+
+  test('setRoots on a client notifies the server and changes later answers', async () => {
+    const server = createServer();
+
+    managerInstance = await manager({
+      workspace: {
+        transport: { type: 'memory', handler: server.handler },
+        roots: [{ uri: 'file:///workspaces/a' }]
+      }
+    }).use('workspace');
+
+    const client = managerInstance.getClient('workspace');
+    expect(client?.getRoots()).toEqual([{ uri: 'file:///workspaces/a' }]);
+
+    await client?.setRoots([{ uri: 'file:///workspaces/b', name: 'B' }]);
+    await server.waitForNotification('notifications/roots/list_changed');
+
+    expect(server.notifiedMethods()).toContain('notifications/roots/list_changed');
+    expect((await server.listRoots()).result).toEqual({ roots: [{ uri: 'file:///workspaces/b', name: 'B' }] });
+
+    await expect(client!.setRoots([{ uri: 'https://example.com' }])).rejects.toThrow('is not a file:// URI');
+  });
+
+  test('setRoots on the manager updates every client with roots enabled', async () => {
+    const withRoots = createServer();
+    const withoutRoots = createServer();
+
+    managerInstance = await manager({
+      withRoots: { transport: { type: 'memory', handler: withRoots.handler }, roots: [] },
+      withoutRoots: { transport: { type: 'memory', handler: withoutRoots.handler } }
+    }).use('withRoots');
+    await managerInstance.use('withoutRoots');
+
+    expect(withoutRoots.advertisedCapabilities()).toEqual({});
+    expect((await withoutRoots.listRoots()).error?.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+
+    await managerInstance.setRoots([{ uri: 'file:///workspaces/next' }]);
+    await withRoots.waitForNotification('notifications/roots/list_changed');
+
+    expect((await withRoots.listRoots()).result).toEqual({ roots: [{ uri: 'file:///workspaces/next' }] });
+    expect(withoutRoots.notifiedMethods()).not.toContain('notifications/roots/list_changed');
+    expect(managerInstance.getClient('withoutRoots')?.getRoots()).toBeUndefined();
+    await expect(managerInstance.getClient('withoutRoots')!.setRoots([])).rejects.toThrow('Roots are not enabled');
+  });
+
+  test('roots set on the manager outrank per-server roots after a reconnect', async () => {
+    const server = createServer();
+
+    managerInstance = await manager({
+      workspace: { transport: { type: 'memory', handler: server.handler }, roots: [{ uri: 'file:///workspaces/configured' }] }
+    }).use('workspace');
+
+    await managerInstance.setRoots([{ uri: 'file:///workspaces/chosen' }]);
+    await managerInstance.getClient('workspace')!.disconnect();
+    await managerInstance.use('workspace');
+
+    expect(managerInstance.getClient('workspace')?.getRoots()).toEqual([{ uri: 'file:///workspaces/chosen' }]);
+    expect((await server.listRoots()).result).toEqual({ roots: [{ uri: 'file:///workspaces/chosen' }] });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { ERROR_CODES } from '../../src/constants';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, CreateMessageRequest, SamplingHandler } from '../../src/types';
+
+const samplingRequest: CreateMessageRequest = {
+  messages: [{ role: 'user', content: { type: 'text', text: 'What is the capital of France?' } }],
+  modelPreferences: { hints: [{ name: 'claude' }], intelligencePriority: 0.8 },
+  systemPrompt: 'You are a helpful assistant.',
+  maxTokens: 100
+};
+
+describe('Sampling E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('advertises sampling and answers createMessage with the handler result', async () => {
+    const server = createMemoryTestServer();
+    const received: Array<{ serverName: string; request: CreateMessageRequest }> = [];
+    const samplingHandler: SamplingHandler = async (serverName, request) => {
+      received.push({ serverName, request });
+      return { role: 'assistant', content: { type: 'text', text: 'Paris' }, model: 'stub-model', stopReason: 'endTurn' };
+    };
+
+    managerInstance = await manager({
+      inProcess: { transport: { type: 'memory', handler: server.handler } }
+    }, { samplingHandler }).use('inProcess');
+
+    expect(server.advertisedCapabilities()).toEqual({ sampling: {} });
+
+    const response = await server.request('sampling/createMessage', samplingRequest);
+    expect(response.result).toEqual({ role: 'assistant', content: { type: 'text', text: 'Paris' }, model: 'stub-model', stopReason: 'endTurn' });
+    expect(received).toEqual([{ serverName: 'inProcess', request: samplingRequest }]);
+  });
+
+  test('prefers the per-server handler and rejects malformed requests', async () => {
+    const server = createMemoryTestServer();
+
+    managerInstance = await manager({
+      inProcess: {
+        transport: { type: 'memory', handler: server.handler },
+        samplingHandler: () => ({ role: 'assistant', content: { type: 'text', text: 'from server config' }, model: 'per-server' })
+      }
+    }, {
+      samplingHandler: () => ({ role: 'assistant', content: { type: 'text', text: 'from manager' }, model: 'manager-wide' })
+    }).use('inProcess');
+
+    const response = await server.request('sampling/createMessage', samplingRequest);
+    expect((response.result as { model?: string }).model).toBe('per-server');
+
+    const malformed = await server.request('sampling/createMessage', { messages: 'not a list' });
+    expect(malformed.error?.code).toBe(ERROR_CODES.INVALID_PARAMS);
+  });
+
+  test('does not advertise sampling without a handler', async () => {
+    const server = createMemoryTestServer();
+
+    managerInstance = await manager({
+      inProcess: { transport: { type: 'memory', handler: server.handler } }
+    }).use('inProcess');
+
+    expect(server.advertisedCapabilities()).toEqual({});
+
+    const response = await server.request('sampling/createMessage', samplingRequest);
+    expect(response.error?.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { ERROR_CODES } from '../../src/constants';
+import { createMcpError } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI } from '../../src/types';
+
+describe('Server-to-Client Requests E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('answers ping automatically and unknown methods with METHOD_NOT_FOUND', async () => {
+    const server = createMemoryTestServer();
+    managerInstance = await manager({
+      inProcess: { transport: { type: 'memory', handler: server.handler } }
+    }).use('inProcess');
+
+    const pong = await server.request('ping');
+    expect(pong).toEqual({ jsonrpc: '2.0', id: 'server-1', result: {} });
+
+    const unknown = await server.request('unknown/method');
+    expect(unknown.error?.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+    expect(unknown.error?.message).toContain('unknown/method');
+  });
+
+  test('dispatches to registered handlers and reports their errors', async () => {
+    const server = createMemoryTestServer();
+    const received: Array<{ serverName: string; method: string; params?: unknown }> = [];
+
+    managerInstance = await manager({
+      inProcess: { transport: { type: 'memory', handler: server.handler } }
+    }, {
+      requestHandlers: {
+        'custom/echo': async (serverName, request) => {
+          received.push({ serverName, ...request });
+          return { echoed: request.params };
+        },
+        'custom/strict': () => {
+          throw createMcpError('Missing argument', ERROR_CODES.INVALID_PARAMS, { argument: 'name' });
+        },
+        'custom/broken': () => {
+          throw new Error('Handler crashed');
+        }
+      }
+    }).use('inProcess');
+
+    const echoed = await server.request('custom/echo', { text: 'hi' });
+    expect(echoed.result).toEqual({ echoed: { text: 'hi' } });
+    expect(received).toEqual([{ serverName: 'inProcess', method: 'custom/echo', params: { text: 'hi' } }]);
+
+    const strict = await server.request('custom/strict');
+    expect(strict.error).toEqual({ code: ERROR_CODES.INVALID_PARAMS, message: 'Missing argument', data: { argument: 'name' } });
+
+    const broken = await server.request('custom/broken');
+    expect(broken.error?.code).toBe(ERROR_CODES.INTERNAL_ERROR);
+    expect(broken.error?.message).toBe('Handler crashed');
+
+    // The connection keeps working after a failed handler
+    await managerInstance.getClient('inProcess')?.ping();
+  });
+});
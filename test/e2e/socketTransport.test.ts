@@ -0,0 +1,139 @@
+import { describe, test, expect, afterAll, afterEach } from 'bun:test';
+import type { Socket, TCPSocketListener, UnixSocketListener } from 'bun';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { unlinkSync, existsSync } from 'fs';
+import { manager } from '../../src/core';
+import type { ManagerAPI, JsonRpcRequest, JsonRpcNotification } from '../../src/types';
+
+const SOCKET_PATH = join(tmpdir(), `mcp-socket-test-${process.pid}.sock`);
+
+// Daemon-style server speaking newline-delimited JSON; responses are written in
+// two pieces to exercise reassembly, and prompts/list is never answered
+const createSocketHandlers = () => {
+  const clients = new Set<Socket<undefined>>();
+  let buffer = '';
+
+  const reply = (socket: Socket<undefined>, request: JsonRpcRequest) => {
+    if (request.id === undefined || request.method === 'prompts/list') return;
+
+    const result = request.method === 'initialize'
+      ? { protocolVersion: '2024-11-05', capabilities: { tools: {}, prompts: {} } }
+      : request.method === 'tools/list'
+        ? { tools: [{ name: 'daemonTool', inputSchema: {} }] }
+        : {};
+    const line = JSON.stringify({ jsonrpc: '2.0', id: request.id, result }) + '\n';
+    socket.write(line.slice(0, 10));
+    socket.write(line.slice(10));
+
+    if (request.method === 'initialize') {
+      socket.write(JSON.stringify({ jsonrpc: '2.0', method: 'daemonReady', params: {} }) + '\n');
+    }
+  };
+
+  return {
+    clients,
+    handlers: {
+      open: (socket: Socket<undefined>) => { clients.add(socket); },
+      close: (socket: Socket<undefined>) => { clients.delete(socket); },
+      data: (socket: Socket<undefined>, data: Uint8Array) => {
+        buffer += new TextDecoder().decode(data);
+        let newlineIndex;
+        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newlineIndex);
+          buffer = buffer.slice(newlineIndex + 1);
+          if (line.trim()) reply(socket, JSON.parse(line) as JsonRpcRequest);
+        }
+      }
+    }
+  };
+};
+
+describe('Socket Transport E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+  const listeners: Array<TCPSocketListener<undefined> | UnixSocketListener<undefined>> = [];
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  afterAll(() => {
+    listeners.forEach(listener => listener.stop(true));
+    if (existsSync(SOCKET_PATH)) unlinkSync(SOCKET_PATH);
+  });
+
+  test('attaches to a Unix domain socket server', async () => {
+    const daemon = createSocketHandlers();
+    listeners.push(Bun.listen({ unix: SOCKET_PATH, socket: daemon.handlers }));
+    const notifications: Array<Omit<JsonRpcNotification, 'jsonrpc'>> = [];
+
+    managerInstance = await manager({
+      daemon: { transport: { type: 'socket', path: SOCKET_PATH } }
+    }, {
+      onNotification: (_serverName, notification) => notifications.push(notification)
+    }).use('daemon');
+
+    const client = managerInstance.getClient('daemon');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['daemonTool']);
+    expect(notifications.some(n => n.method === 'daemonReady')).toBe(true);
+
+    const transport = managerInstance._getState().activeClients.daemon.transport;
+    expect(transport._details.type).toBe('socket');
+    expect(transport._details.address).toBe(SOCKET_PATH);
+  });
+
+  test('retries connecting to a TCP server that is still starting', async () => {
+    // Reserve a free port, then release it so the first attempt is refused
+    const probe = Bun.listen({ hostname: '127.0.0.1', port: 0, socket: { data: () => {} } });
+    const port = probe.port;
+    probe.stop(true);
+
+    const daemon = createSocketHandlers();
+    setTimeout(() => {
+      listeners.push(Bun.listen({ hostname: '127.0.0.1', port, socket: daemon.handlers }));
+    }, 50);
+
+    managerInstance = await manager({
+      daemon: {
+        transport: {
+          type: 'socket',
+          host: '127.0.0.1',
+          port,
+          options: { initializationRetries: 5, initializationRetryDelay: 100 }
+        }
+      }
+    }).use('daemon');
+
+    await managerInstance.getClient('daemon')?.ping();
+    expect(managerInstance._getState().activeClients.daemon.transport._details.address).toBe(`127.0.0.1:${port}`);
+  });
+
+  test('fails pending requests and drops the client when the server closes the connection', async () => {
+    const daemon = createSocketHandlers();
+    const listener = Bun.listen({ hostname: '127.0.0.1', port: 0, socket: daemon.handlers });
+    listeners.push(listener);
+
+    const connected = await manager({
+      daemon: { transport: { type: 'socket', host: '127.0.0.1', port: listener.port } }
+    }).use('daemon');
+
+    const client = connected.getClient('daemon');
+    expect(client).toBeDefined();
+
+    const pending = client!.listPrompts().catch(err => err as Error);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    daemon.clients.forEach(socket => socket.end());
+
+    const error = await pending;
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('was closed by the server');
+    expect(connected.getClient('daemon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, test, expect, afterAll, afterEach } from 'bun:test';
+import type { Server } from 'bun';
+import { manager } from '../../src/core';
+import { isMcpError } from '../../src/utils';
+import type { ManagerAPI, JsonRpcRequest } from '../../src/types';
+
+const SESSION_ID = 'legacy-session';
+
+// Legacy HTTP+SSE server: the stream announces a session-specific POST endpoint,
+// and responses to POSTed requests are pushed back over the stream
+const createLegacySseServer = (endpoint: (port: number | undefined) => string) => {
+  const encoder = new TextEncoder();
+  const streams = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  const postedUrls: string[] = [];
+
+  const respond = (request: JsonRpcRequest) => {
+    const result = request.method === 'initialize'
+      ? { protocolVersion: '2024-11-05', capabilities: { tools: {} } }
+      : request.method === 'tools/list'
+        ? { tools: [{ name: 'legacyTool', inputSchema: {} }] }
+        : {};
+    const payload = encoder.encode(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: request.id, result })}\n\n`);
+    streams.forEach(controller => controller.enqueue(payload));
+  };
+
+  const server: Server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const url = new URL(req.url);
+
+      if (req.method === 'GET' && url.pathname === '/sse') {
+        let streamController: ReadableStreamDefaultController<Uint8Array>;
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            streamController = controller;
+            streams.add(controller);
+            controller.enqueue(encoder.encode(`event: endpoint\ndata: ${endpoint(server.port)}\n\n`));
+          },
+          cancel() {
+            streams.delete(streamController);
+          }
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      // Only the announced endpoint accepts messages
+      if (req.method === 'POST' && url.pathname === '/messages' && url.searchParams.get('sessionId') === SESSION_ID) {
+        postedUrls.push(req.url);
+        const message = await req.json() as JsonRpcRequest;
+        if (message.id !== undefined) respond(message);
+        return new Response('Accepted', { status: 202 });
+      }
+
+      return new Response('Method not allowed', { status: 405 });
+    }
+  });
+
+  return { server, postedUrls };
+};
+
+// Server that drops its stream right after accepting a ping, answering it only once
+// the client reconnects; every pushed message carries an event ID
+const createFlakySseServer = (options: { acceptReconnects: boolean }) => {
+  const encoder = new TextEncoder();
+  const lastEventIds: Array<string | null> = [];
+  let current: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let eventCounter = 0;
+  let unanswered: JsonRpcRequest | null = null;
+
+  const push = (request: JsonRpcRequest, result: unknown) => {
+    eventCounter++;
+    current?.enqueue(encoder.encode(`id: evt-${eventCounter}\nevent: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: request.id, result })}\n\n`));
+  };
+
+  const server: Server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const url = new URL(req.url);
+
+      if (req.method === 'GET') {
+        lastEventIds.push(req.headers.get('Last-Event-ID'));
+        if (lastEventIds.length > 1 && !options.acceptReconnects) {
+          return new Response('Unavailable', { status: 503 });
+        }
+        
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            current = controller;
+            controller.enqueue(encoder.encode(`event: endpoint\ndata: /messages\n\n`));
+            if (unanswered) {
+              push(unanswered, {});
+              unanswered = null;
+            }
+          }
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      if (req.method === 'POST' && url.pathname === '/messages') {
+        const message = await req.json() as JsonRpcRequest;
+        if (message.method === 'ping') {
+          unanswered = message;
+          current?.close();
+          current = null;
+        } else if (message.id !== undefined) {
+          push(message, message.method === 'initialize' ? { capabilities: {} } : {});
+        }
+        return new Response('Accepted', { status: 202 });
+      }
+
+      return new Response('Not found', { status: 404 });
+    }
+  });
+
+  return { server, lastEventIds, eventCount: () => eventCounter };
+};
+
+// Server that starts a new session on every stream and forgets the old one; a ping drops the
+// stream unanswered, and requests are only answered on a session that has been initialized
+const createSessionSseServer = () => {
+  const encoder = new TextEncoder();
+  const initialized = new Set<string>();
+  const received: Array<{ sessionId: string; method: string }> = [];
+  let current: { sessionId: string; controller: ReadableStreamDefaultController<Uint8Array> } | null = null;
+  let sessions = 0;
+
+  const push = (payload: unknown) =>
+    current?.controller.enqueue(encoder.encode(`event: message\ndata: ${JSON.stringify(payload)}\n\n`));
+
+  const server: Server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const url = new URL(req.url);
+
+      if (req.method === 'GET') {
+        const sessionId = `session-${++sessions}`;
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            current = { sessionId, controller };
+            controller.enqueue(encoder.encode(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`));
+          }
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      const sessionId = url.searchParams.get('sessionId') ?? '';
+      if (req.method !== 'POST' || sessionId !== current?.sessionId) {
+        return new Response('Unknown session', { status: 404 });
+      }
+
+      const message = await req.json() as JsonRpcRequest;
+      received.push({ sessionId, method: message.method });
+      if (message.method === 'initialize') {
+        push({ jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} } } });
+      } else if (message.method === 'notifications/initialized') {
+        initialized.add(sessionId);
+      } else if (message.method === 'ping') {
+        current.controller.close();
+        current = null;
+      } else if (!initialized.has(sessionId)) {
+        push({ jsonrpc: '2.0', id: message.id, error: { code: -32600, message: 'Session not initialized' } });
+      } else {
+        push({ jsonrpc: '2.0', id: message.id, result: { tools: [{ name: 'fresh', inputSchema: {} }] } });
+      }
+      return new Response('Accepted', { status: 202 });
+    }
+  });
+
+  return { server, received, initialized };
+};
+
+describe('SSE Transport E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+  const servers: Server[] = [];
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  afterAll(() => {
+    servers.forEach(server => server.stop(true));
+  });
+
+  test('posts to a relative endpoint resolved against the stream URL', async () => {
+    const legacy = createLegacySseServer(() => `/messages?sessionId=${SESSION_ID}`);
+    servers.push(legacy.server);
+    const streamUrl = `http://localhost:${legacy.server.port}/sse`;
+
+    managerInstance = await manager({
+      legacyServer: { transport: { type: 'sse', url: streamUrl } }
+    }).use('legacyServer');
+
+    const client = managerInstance.getClient('legacyServer');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['legacyTool']);
+
+    const expectedEndpoint = `http://localhost:${legacy.server.port}/messages?sessionId=${SESSION_ID}`;
+    expect(legacy.postedUrls.length).toBeGreaterThan(0);
+    expect(legacy.postedUrls.every(url => url === expectedEndpoint)).toBe(true);
+
+    const transport = managerInstance._getState().activeClients.legacyServer.transport;
+    expect(transport._details.type).toBe('sse');
+    expect(transport._details.endpointUrl).toBe(expectedEndpoint);
+  });
+
+  test('uses an absolute endpoint URL as announced', async () => {
+    const legacy = createLegacySseServer(port => `http://127.0.0.1:${port}/messages?sessionId=${SESSION_ID}`);
+    servers.push(legacy.server);
+
+    managerInstance = await manager({
+      legacyServer: { transport: { type: 'sse', url: `http://localhost:${legacy.server.port}/sse` } }
+    }).use('legacyServer');
+
+    await managerInstance.getClient('legacyServer')?.ping();
+
+    const transport = managerInstance._getState().activeClients.legacyServer.transport;
+    expect(transport._details.endpointUrl).toBe(`http://127.0.0.1:${legacy.server.port}/messages?sessionId=${SESSION_ID}`);
+  });
+
+  test('keeps pending requests alive across a reconnect and resumes with Last-Event-ID', async () => {
+    const flaky = createFlakySseServer({ acceptReconnects: true });
+    servers.push(flaky.server);
+
+    managerInstance = await manager({
+      flakyServer: { 
+        transport: { 
+          type: 'sse', 
+          url: `http://localhost:${flaky.server.port}/sse`,
+          reconnect: { maxAttempts: 3, baseDelayMs: 20, jitterMs: 10 }
+        } 
+      }
+    }).use('flakyServer');
+
+    const client = managerInstance.getClient('flakyServer');
+    expect(client).toBeDefined();
+    const eventsBeforeDrop = flaky.eventCount();
+
+    // The stream drops before the ping is answered; the answer arrives after reconnecting
+    await client?.ping();
+
+    expect(flaky.lastEventIds.length).toBe(2);
+    expect(flaky.lastEventIds[0]).toBeNull();
+    expect(flaky.lastEventIds[1]).toBe(`evt-${eventsBeforeDrop}`);
+    expect(managerInstance.getClient('flakyServer')).toBeDefined();
+  });
+
+  test('re-initializes and fails pending requests when a reconnect starts a new session', async () => {
+    const sessionServer = createSessionSseServer();
+    servers.push(sessionServer.server);
+
+    managerInstance = await manager({
+      sessionServer: { 
+        transport: { 
+          type: 'sse', 
+          url: `http://localhost:${sessionServer.server.port}/sse`,
+          reconnect: { maxAttempts: 3, baseDelayMs: 20, jitterMs: 0 }
+        } 
+      }
+    }).use('sessionServer');
+    const client = managerInstance.getClient('sessionServer')!;
+
+    // The ping was lost with the first session, so it can never be answered
+    const error = await client.ping().then(() => undefined, err => err as Error);
+    expect(isMcpError(error, 'transportClosed')).toBe(true);
+    expect(error?.message).toContain('new session');
+
+    const deadline = Date.now() + 2000;
+    while (!sessionServer.initialized.has('session-2') && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(sessionServer.received.filter(message => message.method === 'initialize').map(message => message.sessionId))
+      .toEqual(['session-1', 'session-2']);
+
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['fresh']);
+    expect(managerInstance.getClient('sessionServer')).toBeDefined();
+  });
+
+  test('fails pending requests and drops the client once reconnect attempts run out', async () => {
+    const flaky = createFlakySseServer({ acceptReconnects: false });
+    servers.push(flaky.server);
+
+    const connected = await manager({
+      flakyServer: { 
+        transport: { 
+          type: 'sse', 
+          url: `http://localhost:${flaky.server.port}/sse`,
+          reconnect: { maxAttempts: 2, baseDelayMs: 10, jitterMs: 0 }
+        } 
+      }
+    }).use('flakyServer');
+
+    const client = connected.getClient('flakyServer');
+    expect(client).toBeDefined();
+
+    let error: Error | undefined;
+    try {
+      await client?.ping();
+    } catch (err) {
+      error = err as Error;
+    }
+
+    expect(error?.message).toContain('lost after 2 reconnect attempt(s)');
+    expect(flaky.lastEventIds.length).toBe(3);
+    expect(connected.getClient('flakyServer')).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import type { ManagerAPI } from '../../src/types';
+
+const TEST_DIR = join(process.cwd(), 'test-tmp-stderr');
+const CHATTY_SERVER_SCRIPT = join(TEST_DIR, 'chatty-server.js');
+const STARTUP_CRASH_SCRIPT = join(TEST_DIR, 'startup-crash-server.js');
+
+// Logs to stderr while serving; exits with code 3 when asked to call 'crash'
+const chattyServer = `
+  const readline = require('readline');
+  const rl = readline.createInterface({ input: process.stdin, terminal: false });
+  for (let i = 1; i <= 5; i++) console.error('log line ' + i);
+
+  rl.on('line', (line) => {
+    const request = JSON.parse(line);
+    if (request.method === 'tools/call') {
+      console.error('Fatal: tool exploded');
+      setTimeout(() => process.exit(3), 20);
+      return;
+    }
+    if (request.id !== undefined) {
+      const result = request.method === 'initialize' ? { capabilities: { tools: {} } } : {};
+      process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }) + '\\n');
+    }
+  });
+`;
+
+// Fails before it ever answers, like an npx server missing its configuration
+const startupCrashServer = `
+  console.error('Error: API_KEY environment variable is required');
+  process.exit(1);
+`;
+
+describe('Stderr Capture E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  beforeAll(async () => {
+    if (!existsSync(TEST_DIR)) {
+      await mkdir(TEST_DIR, { recursive: true });
+    }
+    await writeFile(CHATTY_SERVER_SCRIPT, chattyServer);
+    await writeFile(STARTUP_CRASH_SCRIPT, startupCrashServer);
+  });
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('keeps the most recent stderr lines per client', async () => {
+    managerInstance = await manager({
+      chatty: {
+        transport: {
+          type: 'stdio',
+          command: process.execPath,
+          args: [CHATTY_SERVER_SCRIPT],
+          options: { stderrBufferLines: 3 }
+        }
+      }
+    }).use('chatty');
+
+    const client = managerInstance.getClient('chatty');
+    expect(client).toBeDefined();
+    await client?.ping();
+
+    expect(client?.getStderr()).toEqual(['log line 3', 'log line 4', 'log line 5']);
+  });
+
+  test('attaches the stderr tail to the error when the server exits unexpectedly', async () => {
+    const connected = await manager({
+      chatty: {
+        transport: { type: 'stdio', command: process.execPath, args: [CHATTY_SERVER_SCRIPT] }
+      }
+    }).use('chatty');
+
+    const client = connected.getClient('chatty');
+    const error = await client!.callTool('anything', {}).then(
+      () => undefined,
+      err => err as Error & { context?: { rawOutput?: string; serverName?: string } }
+    );
+
+    expect(error?.message).toContain('exited with code 3');
+    expect(error?.context?.serverName).toBe('chatty');
+    expect(error?.context?.rawOutput).toContain('log line 1');
+    expect(error?.context?.rawOutput).toContain('Fatal: tool exploded');
+    expect(connected.getClient('chatty')).toBeUndefined();
+  });
+
+  test('attaches the stderr tail to the error when initialization fails', async () => {
+    const error = await manager({
+      crashing: {
+        transport: {
+          type: 'stdio',
+          command: process.execPath,
+          args: [STARTUP_CRASH_SCRIPT],
+          options: { initializationRetries: 1, initializationRetryDelay: 10 }
+        }
+      }
+    }, { requestTimeoutMs: 300 }).use('crashing').then(
+      () => undefined,
+      err => err as Error & { context?: { rawOutput?: string; command?: string } }
+    );
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error?.context?.command).toBe(process.execPath);
+    expect(error?.context?.rawOutput).toContain('API_KEY environment variable is required');
+  });
+});
@@ -0,0 +1,177 @@
+import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import type { ManagerAPI, MessageCodec } from '../../src/types';
+
+const TEST_DIR = join(process.cwd(), 'test-tmp-framing');
+const CONTENT_LENGTH_SERVER_SCRIPT = join(TEST_DIR, 'content-length-server.js');
+const RECORD_SEPARATOR_SERVER_SCRIPT = join(TEST_DIR, 'record-separator-server.js');
+const LARGE_RESPONSE_SERVER_SCRIPT = join(TEST_DIR, 'large-response-server.js');
+
+// Shared request handling; the tool description contains multi-byte characters
+// so Content-Length has to count bytes rather than characters
+const respondSource = `
+  const respond = (request) => {
+    if (request.method === 'initialize') {
+      return { jsonrpc: '2.0', id: request.id, result: { capabilities: { tools: {}, resources: {} } } };
+    } else if (request.method === 'tools/list') {
+      return { jsonrpc: '2.0', id: request.id, result: { tools: [{ name: 'greet', description: 'Grüße 👋', inputSchema: {} }] } };
+    }
+    return { jsonrpc: '2.0', id: request.id, result: {} };
+  };
+`;
+
+const contentLengthServer = `
+  ${respondSource}
+  let buffer = Buffer.alloc(0);
+
+  const write = (message) => {
+    const body = Buffer.from(JSON.stringify(message), 'utf8');
+    // Split header and body across writes to exercise reassembly
+    process.stdout.write('Content-Length: ' + body.length + '\\r\\n\\r\\n');
+    process.stdout.write(body);
+  };
+
+  process.stdin.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (true) {
+      const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+      if (headerEnd === -1) return;
+      const length = Number(/Content-Length: (\\d+)/i.exec(buffer.subarray(0, headerEnd).toString())[1]);
+      if (buffer.length < headerEnd + 4 + length) return;
+      const request = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString('utf8'));
+      buffer = buffer.subarray(headerEnd + 4 + length);
+      if (request.id !== undefined) write(respond(request));
+    }
+  });
+`;
+
+const recordSeparatorServer = `
+  ${respondSource}
+  let buffer = '';
+
+  process.stdin.on('data', (chunk) => {
+    buffer += chunk.toString();
+    const parts = buffer.split('\\x1e');
+    buffer = parts.pop();
+    parts.filter(part => part.trim()).forEach(part => {
+      const request = JSON.parse(part);
+      if (request.id !== undefined) process.stdout.write(JSON.stringify(respond(request)) + '\\x1e');
+    });
+  });
+`;
+
+// Newline-delimited server whose resources/read result is far larger than the others
+const largeResponseServer = `
+  ${respondSource}
+  const readline = require('readline');
+  const rl = readline.createInterface({ input: process.stdin, terminal: false });
+
+  rl.on('line', (line) => {
+    const request = JSON.parse(line);
+    if (request.id === undefined) return;
+    const response = request.method === 'resources/read'
+      ? { jsonrpc: '2.0', id: request.id, result: { contents: [{ uri: 'big://file', text: 'z'.repeat(200000) }] } }
+      : respond(request);
+    process.stdout.write(JSON.stringify(response) + '\\n');
+  });
+`;
+
+const recordSeparatorCodec: MessageCodec = {
+  decode: (buffer) => {
+    const parts = buffer.split('\x1e');
+    return { frames: parts.slice(0, -1), rest: parts[parts.length - 1] };
+  },
+  encode: (message) => JSON.stringify(message) + '\x1e',
+};
+
+describe('Stdio Framing E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  beforeAll(async () => {
+    if (!existsSync(TEST_DIR)) {
+      await mkdir(TEST_DIR, { recursive: true });
+    }
+    await writeFile(CONTENT_LENGTH_SERVER_SCRIPT, contentLengthServer);
+    await writeFile(RECORD_SEPARATOR_SERVER_SCRIPT, recordSeparatorServer);
+    await writeFile(LARGE_RESPONSE_SERVER_SCRIPT, largeResponseServer);
+  });
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('talks to a server using Content-Length framing', async () => {
+    managerInstance = await manager({
+      lspStyle: {
+        transport: {
+          type: 'stdio',
+          command: process.execPath,
+          args: [CONTENT_LENGTH_SERVER_SCRIPT],
+          options: { framing: 'content-length' }
+        }
+      }
+    }).use('lspStyle');
+
+    const client = managerInstance.getClient('lspStyle');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    const tools = await client.listTools();
+    expect(tools).toHaveLength(1);
+    expect(tools[0].description).toBe('Grüße 👋');
+
+    await client.ping();
+    // Every write has been flushed once its request is answered
+    expect(client.getQueueDepth()).toBe(0);
+  });
+
+  test('talks to a server using a custom codec', async () => {
+    managerInstance = await manager({
+      custom: {
+        transport: {
+          type: 'stdio',
+          command: process.execPath,
+          args: [RECORD_SEPARATOR_SERVER_SCRIPT],
+          options: { framing: recordSeparatorCodec }
+        }
+      }
+    }).use('custom');
+
+    const tools = await managerInstance.getClient('custom')?.listTools();
+    expect(tools?.map(tool => tool.name)).toEqual(['greet']);
+  });
+
+  test('fails only the request whose response exceeds maxMessageSize', async () => {
+    managerInstance = await manager({
+      largeResponses: {
+        transport: {
+          type: 'stdio',
+          command: process.execPath,
+          args: [LARGE_RESPONSE_SERVER_SCRIPT],
+          options: { maxMessageSize: 64 * 1024 }
+        }
+      }
+    }).use('largeResponses');
+
+    const client = managerInstance.getClient('largeResponses');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    await expect(client.readResource('big://file')).rejects.toThrow('exceeds the maximum size of 65536 bytes');
+
+    // The server and the connection stay usable
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['greet']);
+    expect(managerInstance.getClient('largeResponses')).toBeDefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { manager } from '../../src/core';
+import { getText, getImages, isMcpError, createJsonRpcResponse } from '../../src/utils';
+import { createMemoryTestServer } from '../../src/test-utils';
+import type { ManagerAPI, CallToolResult, McpToolError } from '../../src/types';
+
+const RESULTS: Record<string, CallToolResult> = {
+  chart: {
+    content: [
+      { type: 'text', text: 'Revenue by quarter' },
+      { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+      { type: 'resource_link', uri: 'file:///reports/q3.csv', name: 'q3.csv', mimeType: 'text/csv' },
+      { type: 'resource', resource: { uri: 'file:///reports/notes.md', text: '# Notes' } },
+      { type: 'text', text: 'Q3 is up 12%' }
+    ],
+    structuredContent: { quarters: 4, growth: 0.12 }
+  },
+  lookup: {
+    content: [{ type: 'text', text: 'Customer 42 not found' }],
+    isError: true
+  }
+};
+
+// In-process server that answers tools/call with the canned result for the tool name
+const server = createMemoryTestServer({
+  capabilities: { tools: {} },
+  onRequest: request => {
+    const name = (request.params as { name?: string } | undefined)?.name ?? '';
+    return createJsonRpcResponse(request.id, RESULTS[name] ?? {});
+  }
+});
+
+describe('Tool Results E2E', () => {
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  test('returns typed content, structured content and helpers to read them', async () => {
+    managerInstance = await manager({
+      reports: { transport: { type: 'memory', handler: server.handler } }
+    }).use('reports');
+
+    const result = await managerInstance.getClient('reports')!.callTool('chart', {});
+    expect(getText(result)).toBe('Revenue by quarter\nQ3 is up 12%');
+    expect(getImages(result)).toEqual([{ type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' }]);
+    expect(result.structuredContent).toEqual({ quarters: 4, growth: 0.12 });
+
+    const links = result.content.flatMap(block => block.type === 'resource_link' ? [block.uri] : []);
+    expect(links).toEqual(['file:///reports/q3.csv']);
+  });
+
+  test('returns tool errors as results unless asked to throw', async () => {
+    managerInstance = await manager({
+      reports: { transport: { type: 'memory', handler: server.handler } }
+    }).use('reports');
+    const client = managerInstance.getClient('reports')!;
+
+    const result = await client.callTool('lookup', { id: 42 });
+    expect(result.isError).toBe(true);
+
+    const error = await client.callTool('lookup', { id: 42 }, { throwOnToolError: true }).then(
+      () => undefined,
+      err => err as McpToolError
+    );
+    expect(isMcpError(error, 'tool')).toBe(true);
+    expect(error?.message).toBe('Tool lookup on reports reported an error: Customer 42 not found');
+    expect(error?.data).toEqual(RESULTS.lookup);
+    expect(error).toMatchObject({ serverName: 'reports', method: 'tools/call', requestId: server.requests.at(-1)?.id });
+  });
+
+  test('throwOnToolError can be the manager default and switched off per call', async () => {
+    managerInstance = await manager({
+      reports: { transport: { type: 'memory', handler: server.handler } }
+    }, { throwOnToolError: true }).use('reports');
+    const client = managerInstance.getClient('reports')!;
+
+    await expect(client.callTool('lookup', {})).rejects.toThrow('Customer 42 not found');
+    expect((await client.callTool('lookup', {}, { throwOnToolError: false })).isError).toBe(true);
+    // Successful results are unaffected
+    expect(getText(await client.callTool('chart', {}))).toContain('Q3 is up 12%');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, test, expect, afterAll, afterEach } from 'bun:test';
+import type { Server, ServerWebSocket } from 'bun';
+import { manager } from '../../src/core';
+import type { ManagerAPI, JsonRpcRequest, JsonRpcNotification } from '../../src/types';
+
+// MCP over WebSocket: one JSON-RPC message per text frame
+const createWebSocketServer = () => {
+  const upgrades: Array<{ authorization: string | null; protocol: string | null }> = [];
+  const sockets = new Set<ServerWebSocket<unknown>>();
+  let pingsReceived = 0;
+
+  const server: Server = Bun.serve({
+    port: 0,
+    fetch: (req, srv) => {
+      upgrades.push({
+        authorization: req.headers.get('Authorization'),
+        protocol: req.headers.get('Sec-WebSocket-Protocol')
+      });
+      // Echo the subprotocol only when the client asked for one
+      const protocol = req.headers.get('Sec-WebSocket-Protocol') ? { 'Sec-WebSocket-Protocol': 'mcp' } : undefined;
+      return srv.upgrade(req, { headers: protocol })
+        ? undefined
+        : new Response('Upgrade required', { status: 426 });
+    },
+    websocket: {
+      open: ws => { sockets.add(ws); },
+      close: ws => { sockets.delete(ws); },
+      ping: () => { pingsReceived++; },
+      message: (ws, data) => {
+        const request = JSON.parse(String(data)) as JsonRpcRequest;
+        if (request.id === undefined) return;
+
+        if (request.method === 'initialize') {
+          ws.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { capabilities: { tools: {}, prompts: {} } } }));
+          ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'wsReady', params: { ok: true } }));
+        } else if (request.method === 'tools/list') {
+          ws.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { tools: [{ name: 'wsTool', inputSchema: {} }] } }));
+        } else if (request.method === 'ping') {
+          ws.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: {} }));
+        }
+        // Anything else is left unanswered so tests can observe pending requests
+      }
+    }
+  });
+
+  return {
+    server,
+    upgrades,
+    pingsReceived: () => pingsReceived,
+    closeAll: (code: number, reason: string) => sockets.forEach(ws => ws.close(code, reason))
+  };
+};
+
+describe('WebSocket Transport E2E', () => {
+  const wsServer = createWebSocketServer();
+  let managerInstance: ManagerAPI | undefined;
+
+  afterEach(async () => {
+    if (managerInstance) {
+      await managerInstance.disconnectAll();
+      managerInstance = undefined;
+    }
+  });
+
+  afterAll(() => {
+    wsServer.server.stop(true);
+  });
+
+  test('connects with headers and subprotocol and exchanges messages', async () => {
+    const notifications: Array<Omit<JsonRpcNotification, 'jsonrpc'>> = [];
+
+    managerInstance = await manager({
+      wsServer: {
+        transport: {
+          type: 'websocket',
+          url: `ws://localhost:${wsServer.server.port}/mcp`,
+          headers: { Authorization: 'Bearer test-token' },
+          protocols: 'mcp'
+        }
+      }
+    }, {
+      onNotification: (_serverName, notification) => notifications.push(notification)
+    }).use('wsServer');
+
+    const client = managerInstance.getClient('wsServer');
+    expect(client).toBeDefined();
+    if (!client) return;
+
+    await client.ping();
+    const tools = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['wsTool']);
+    expect(notifications.some(n => n.method === 'wsReady')).toBe(true);
+
+    const upgrade = wsServer.upgrades[wsServer.upgrades.length - 1];
+    expect(upgrade.authorization).toBe('Bearer test-token');
+    expect(upgrade.protocol).toBe('mcp');
+
+    const transport = managerInstance._getState().activeClients.wsServer.transport;
+    expect(transport._details.type).toBe('websocket');
+    expect(transport._details.protocol).toBe('mcp');
+  });
+
+  test('requests no subprotocol unless one is configured', async () => {
+    managerInstance = await manager({
+      wsServer: { transport: { type: 'websocket', url: `ws://localhost:${wsServer.server.port}/mcp` } }
+    }).use('wsServer');
+
+    await managerInstance.getClient('wsServer')?.ping();
+    expect(wsServer.upgrades[wsServer.upgrades.length - 1].protocol).toBeNull();
+    expect(managerInstance._getState().activeClients.wsServer.transport._details.protocol).toBe('');
+  });
+
+  test('sends keepalive pings', async () => {
+    const pingsBefore = wsServer.pingsReceived();
+
+    managerInstance = await manager({
+      wsServer: {
+        transport: {
+          type: 'websocket',
+          url: `ws://localhost:${wsServer.server.port}/mcp`,
+          options: { pingIntervalMs: 20 }
+        }
+      }
+    }).use('wsServer');
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    // Pongs keep arriving, so the connection stays up
+    expect(wsServer.pingsReceived() - pingsBefore).toBeGreaterThanOrEqual(2);
+    expect(managerInstance.getClient('wsServer')).toBeDefined();
+    await managerInstance.getClient('wsServer')?.ping();
+  });
+
+  test('reports the close code when the server closes the connection', async () => {
+    const connected = await manager({
+      wsServer: {
+        transport: {
+          type: 'websocket',
+          url: `ws://localhost:${wsServer.server.port}/mcp`
+        }
+      }
+    }).use('wsServer');
+
+    const client = connected.getClient('wsServer');
+    const transport = connected._getState().activeClients.wsServer.transport;
+    expect(client).toBeDefined();
+
+    // An unanswered request is failed with the close details instead of timing out
+    const pending = client!.listPrompts().catch(err => err as Error);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    wsServer.closeAll(4001, 'Server shutting down');
+
+    const error = await pending;
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('closed with code 4001: Server shutting down');
+    expect(transport._details.closeCode).toBe(4001);
+    expect(transport._details.closeReason).toBe('Server shutting down');
+    expect(connected.getClient('wsServer')).toBeUndefined();
+  });
+});
@@ -37,12 +37,17 @@ describe('Progress Tracking', () => {
     expect(client).toBeDefined();
     
     if (client) {
-      // Progress tracking array
-      const progressUpdates: Progress[] = [];
+      // Progress tracking array; the calculator always reports a total
+      const progressUpdates: Array<Progress & { total: number }> = [];
+      let updatesWithoutTotal = 0;
       
       // Create a progress callback
       const onProgress = (progress: Progress) => {
-        progressUpdates.push(progress);
+        if (progress.total === undefined) {
+          updatesWithoutTotal++;
+        } else {
+          progressUpdates.push({ ...progress, total: progress.total });
+        }
       };
       
       // Call the slow calculate tool which reports progress
@@ -63,6 +68,7 @@ describe('Progress Tracking', () => {
       
       // Verify progress was tracked
       expect(progressUpdates.length).toBeGreaterThan(0);
+      expect(updatesWithoutTotal).toBe(0);
       
       // Each progress update should have the correct structure
       for (const progress of progressUpdates) {
@@ -0,0 +1,132 @@
+import { describe, test, expect } from 'bun:test';
+import { createLineSplitter, createStdioReader, contentLengthCodec, ndjsonCodec } from '../../src/utils';
+import { ERROR_CODES } from '../../src/constants';
+import type { JsonRpcMessage, JsonRpcResponse } from '../../src/types';
+
+const encoder = new TextEncoder();
+
+// Feeds bytes to a reader in fixed-size pieces, regardless of character boundaries
+const feedInPieces = (read: (chunk: Uint8Array) => void, bytes: Uint8Array, pieceSize: number) => {
+  for (let offset = 0; offset < bytes.length; offset += pieceSize) {
+    read(bytes.slice(offset, offset + pieceSize));
+  }
+};
+
+describe('Stdio Reader', () => {
+  test('line splitter reassembles lines across chunks', () => {
+    const lines: string[] = [];
+    const split = createLineSplitter(line => lines.push(new TextDecoder().decode(line)));
+
+    feedInPieces(split, encoder.encode('first\nsecond line\n\nthird'), 3);
+    expect(lines).toEqual(['first', 'second line', '']);
+
+    split(encoder.encode(' part\n'));
+    expect(lines[3]).toBe('third part');
+  });
+
+  test('decodes multi-byte characters split across chunks', () => {
+    const messages: JsonRpcMessage[] = [];
+    const read = createStdioReader('test', message => messages.push(message), error => { throw error; });
+    const text = 'Grüße 👋 — 日本語';
+    const bytes = encoder.encode(JSON.stringify({ jsonrpc: '2.0', id: 1, result: { text } }) + '\n');
+
+    // One byte at a time splits every multi-byte sequence
+    feedInPieces(read, bytes, 1);
+
+    expect(messages).toHaveLength(1);
+    expect((messages[0] as JsonRpcResponse).result).toEqual({ text });
+  });
+
+  test('reassembles content-length frames split at any byte', () => {
+    const messages: JsonRpcMessage[] = [];
+    const read = createStdioReader('test', message => messages.push(message), error => { throw error; }, {
+      codec: contentLengthCodec
+    });
+
+    feedInPieces(read, encoder.encode(contentLengthCodec.encode({ jsonrpc: '2.0', id: 7, result: { text: 'ü👋' } })), 1);
+
+    expect(messages).toHaveLength(1);
+    expect((messages[0] as JsonRpcResponse).result).toEqual({ text: 'ü👋' });
+  });
+
+  test('fails only the request whose message is oversized', () => {
+    const messages: JsonRpcMessage[] = [];
+    const read = createStdioReader('test', message => messages.push(message), error => { throw error; }, {
+      maxMessageSize: 64
+    });
+
+    const oversized = JSON.stringify({ jsonrpc: '2.0', id: 'big', result: { data: 'x'.repeat(500) } }) + '\n';
+    const normal = JSON.stringify({ jsonrpc: '2.0', id: 2, result: {} }) + '\n';
+    feedInPieces(read, encoder.encode(oversized + normal), 16);
+
+    expect(messages).toHaveLength(2);
+    const [failed, delivered] = messages as JsonRpcResponse[];
+    expect(failed.id).toBe('big');
+    expect(failed.error?.data).toEqual({ maxMessageSize: 64 });
+    expect(failed.error?.message).toContain('exceeds the maximum size of 64 bytes');
+    expect(delivered).toEqual({ jsonrpc: '2.0', id: 2, result: {} });
+  });
+
+  test('drops an oversized message without a recognisable id', () => {
+    const messages: JsonRpcMessage[] = [];
+    const read = createStdioReader('test', message => messages.push(message), error => { throw error; }, {
+      maxMessageSize: 48
+    });
+
+    // The only "id" is nested, so it must not be mistaken for the message's own
+    const oversized = JSON.stringify({ jsonrpc: '2.0', method: 'notify', params: { id: 5, data: 'y'.repeat(100) } }) + '\n';
+    read(encoder.encode(oversized + '{"jsonrpc":"2.0","id":3,"result":{}}\n'));
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 3, result: {} }]);
+  });
+
+  test('answers an oversized server request instead of failing a pending request', () => {
+    const messages: JsonRpcMessage[] = [];
+    const replies: JsonRpcResponse[] = [];
+    const read = createStdioReader('test', message => messages.push(message), error => { throw error; }, {
+      maxMessageSize: 64,
+      reply: response => replies.push(response)
+    });
+
+    // Request ids from the server can collide with the client's own, so this must not look like a response
+    const request = JSON.stringify({ jsonrpc: '2.0', id: 5, method: 'sampling/createMessage', params: { text: 'z'.repeat(200) } }) + '\n';
+    read(encoder.encode(request));
+
+    expect(messages).toEqual([]);
+    expect(replies).toHaveLength(1);
+    expect(replies[0].id).toBe(5);
+    expect(replies[0].error?.code).toBe(ERROR_CODES.INVALID_REQUEST);
+  });
+
+  test('skips oversized content-length bodies by their declared length', () => {
+    const messages: JsonRpcMessage[] = [];
+    const read = createStdioReader('test', message => messages.push(message), error => { throw error; }, {
+      codec: contentLengthCodec,
+      maxMessageSize: 64
+    });
+
+    const oversized = contentLengthCodec.encode({ jsonrpc: '2.0', id: 'big', result: { data: 'x'.repeat(5000) } });
+    const normal = contentLengthCodec.encode({ jsonrpc: '2.0', id: 2, result: {} });
+    feedInPieces(read, encoder.encode(oversized + normal), 7);
+
+    expect(messages).toHaveLength(2);
+    const [failed, delivered] = messages as JsonRpcResponse[];
+    expect(failed.id).toBe('big');
+    expect(failed.error?.data).toEqual({ maxMessageSize: 64 });
+    expect(delivered).toEqual({ jsonrpc: '2.0', id: 2, result: {} });
+  });
+
+  test('bounds the text buffered for custom codecs', () => {
+    const messages: JsonRpcMessage[] = [];
+    // Same framing as the built-in codec, but not recognised as it
+    const read = createStdioReader('test', message => messages.push(message), error => { throw error; }, {
+      codec: { ...ndjsonCodec },
+      maxMessageSize: 32
+    });
+
+    read(encoder.encode('x'.repeat(100)));
+    read(encoder.encode('\n{"jsonrpc":"2.0","id":1,"result":{}}\n'));
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+});
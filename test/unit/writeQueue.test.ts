@@ -0,0 +1,85 @@
+import { describe, test, expect } from 'bun:test';
+import { createWriteQueue, isMcpError } from '../../src/utils';
+import type { SinkCompatible } from '../../src/types';
+
+// Sink whose flushes stay pending until released, like a pipe nobody is reading
+const createBlockedSink = () => {
+  const written: string[] = [];
+  const pendingFlushes: Array<() => void> = [];
+  let failWith: Error | null = null;
+
+  const sink: SinkCompatible = {
+    write: (chunk) => {
+      if (failWith) throw failWith;
+      written.push(new TextDecoder().decode(chunk));
+      return chunk.length;
+    },
+    flush: () => new Promise<number>(resolve => pendingFlushes.push(() => resolve(0)))
+  };
+
+  return {
+    sink,
+    written,
+    releaseFlushes: async () => {
+      // Each released flush lets the next message be written, which flushes again
+      while (pendingFlushes.length > 0) {
+        pendingFlushes.shift()?.();
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    },
+    fail: (error: Error) => { failWith = error; }
+  };
+};
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('Stdin Write Queue', () => {
+  test('writes in order and waits for each flush', async () => {
+    const { sink, written, releaseFlushes } = createBlockedSink();
+    const queue = createWriteQueue('test', sink, 10);
+
+    const writes = ['a', 'b', 'c'].map(text => queue.enqueue(bytes(text)));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    // Only the first message reaches the sink while its flush is pending
+    expect(written).toEqual(['a']);
+    expect(queue.depth()).toBe(3);
+
+    await releaseFlushes();
+    await Promise.all(writes);
+    expect(written).toEqual(['a', 'b', 'c']);
+    expect(queue.depth()).toBe(0);
+  });
+
+  test('rejects messages beyond the queue limit without affecting queued ones', async () => {
+    const { sink, written, releaseFlushes } = createBlockedSink();
+    const queue = createWriteQueue('test', sink, 2);
+
+    const accepted = [queue.enqueue(bytes('1')), queue.enqueue(bytes('2'))];
+    const rejected = await queue.enqueue(bytes('3')).then(() => undefined, err => err as Error);
+
+    expect(isMcpError(rejected, 'queueFull')).toBe(true);
+    expect(rejected?.message).toContain('Write queue for test is full');
+
+    await releaseFlushes();
+    await Promise.all(accepted);
+    expect(written).toEqual(['1', '2']);
+  });
+
+  test('fails every queued message once the sink breaks', async () => {
+    const { sink, releaseFlushes, fail } = createBlockedSink();
+    const queue = createWriteQueue('test', sink, 10);
+
+    const first = queue.enqueue(bytes('first'));
+    const rest = [queue.enqueue(bytes('second')), queue.enqueue(bytes('third'))].map(write => write.catch(err => err as Error));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    fail(new Error('EPIPE: broken pipe'));
+    await releaseFlushes();
+
+    await first;
+    const errors = await Promise.all(rest);
+    errors.forEach(error => expect((error as Error).message).toContain('broken pipe'));
+    expect(queue.depth()).toBe(0);
+  });
+});